@@ -0,0 +1,99 @@
+// Headless checks for the flight simulation: the same launch and inputs must
+// always fly the same flight, and the aiming arc must match stepping by hand.
+// Run with `npm test`; throws on the first mismatch.
+import {
+  createUpgradeLevels,
+  getUpgradeModifiers,
+  type UpgradeLevels,
+} from "../src/config/upgradeData.ts";
+import {
+  createLaunchState,
+  predictTrajectory,
+  simulateFlight,
+  step,
+  MAX_FLIGHT_TICKS,
+  NO_INPUT,
+  type FlightInput,
+  type FlightState,
+  type LaunchParams,
+} from "../src/physics/flightSim.ts";
+import { PHYSICS_STEP, PLANE_HEIGHT } from "../src/config/constants.ts";
+
+const LAUNCHES: LaunchParams[] = [
+  { startZ: 0, height: 3, pullDistance: 10, launchAngle: 0.6, seed: 42 },
+  {
+    startZ: 1200,
+    height: 3,
+    pullDistance: 6,
+    launchAngle: 0.2,
+    seed: 7,
+    windSeed: 99,
+    weather: "rain",
+    boosterMode: "continuous",
+  },
+];
+
+const STARTER = createUpgradeLevels();
+const MAXED = { ...STARTER };
+for (const key of Object.keys(MAXED) as (keyof UpgradeLevels)[]) {
+  MAXED[key] = 10;
+}
+
+// Scripted stick work so the checks cover steering, pitch and throttle
+function scriptedInput(state: FlightState): FlightInput {
+  return {
+    left: state.tick % 200 < 20 ? 1 : 0,
+    right: state.tick % 200 > 180 ? 0.5 : 0,
+    up: state.tick % 300 < 100 ? 1 : 0,
+    down: 0,
+    boost: state.tick % 240 < 60 ? 1 : 0,
+  };
+}
+
+function check(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+for (const levels of [STARTER, MAXED]) {
+  const modifiers = getUpgradeModifiers(levels);
+
+  for (const launch of LAUNCHES) {
+    const name = `seed ${launch.seed}, ${levels === MAXED ? "maxed" : "starter"} plane`;
+
+    // A fixed seed flies the same flight every time
+    const first = simulateFlight(launch, modifiers, scriptedInput);
+    const second = simulateFlight(launch, modifiers, scriptedInput);
+    check(
+      JSON.stringify(first) === JSON.stringify(second),
+      `simulateFlight is not deterministic (${name})`,
+    );
+    check(
+      first.status !== "flying" && first.tick < MAX_FLIGHT_TICKS,
+      `Flight never ends (${name})`,
+    );
+
+    // The aiming arc is plain hands-off stepping up to the first ground touch
+    const arc = predictTrajectory(launch, modifiers);
+    let state = createLaunchState(launch, modifiers);
+    check(
+      JSON.stringify(arc[0]) === JSON.stringify(state),
+      `Trajectory does not start at the launch state (${name})`,
+    );
+    for (let i = 1; i < arc.length; i++) {
+      state = step(state, NO_INPUT, modifiers, PHYSICS_STEP);
+      check(
+        JSON.stringify(arc[i]) === JSON.stringify(state),
+        `Trajectory and step disagree at tick ${i} (${name})`,
+      );
+    }
+    check(
+      state.status !== "flying" || state.position.y <= PLANE_HEIGHT / 2,
+      `Trajectory stops before landing (${name})`,
+    );
+
+    console.log(
+      `ok - ${name}: ${first.distance.toFixed(1)}m in ${first.tick} ticks, ` +
+        `arc of ${arc.length} states`,
+    );
+  }
+}
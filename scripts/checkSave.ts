@@ -0,0 +1,40 @@
+// Headless checks for save validation: loadouts can never hold more than the
+// tiers owned, whether they come from a save file or survive a code import.
+// Run with `npm test`; throws on the first mismatch.
+import {
+  createDefaultSave,
+  decodeSaveCode,
+  encodeSaveCode,
+  validateSave,
+} from "../src/save/save.ts";
+
+function check(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const owned = createDefaultSave();
+owned.upgrades = { ...owned.upgrades, wings: 5, tail: 3, boosters: 2 };
+owned.equipped = { ...owned.upgrades };
+owned.loadouts = [{ name: "Full", upgrades: { ...owned.upgrades } }];
+
+// A save file whose loadout is above the tiers owned
+const file = validateSave({
+  ...owned,
+  upgrades: { ...owned.upgrades, wings: 2 },
+});
+check(
+  file.loadouts[0].upgrades.wings === 2,
+  "Loadout from a save file keeps tiers that are not owned",
+);
+
+// A save code with lower tiers keeps the loadouts, clamped to what it owns
+const poorer = { ...owned, upgrades: { ...owned.upgrades, wings: 1, tail: 1 } };
+const imported = decodeSaveCode(encodeSaveCode(poorer), owned);
+check(imported.loadouts.length === 1, "Save code import dropped the loadouts");
+const { upgrades } = imported.loadouts[0];
+check(
+  upgrades.wings === 1 && upgrades.tail === 1 && upgrades.boosters === 2,
+  `Imported loadout is not clamped to the tiers owned: ${JSON.stringify(upgrades)}`,
+);
+
+console.log("ok - loadouts are clamped to the tiers owned");
@@ -0,0 +1,36 @@
+import type { ObstacleType } from "../world/layout.ts";
+
+export type CollisionResponse =
+  // Run ends on contact
+  | { kind: "stop" }
+  // Slide along the surface when hit at a shallow angle, otherwise stop
+  | { kind: "deflect"; maxGlanceAngle: number; speedRetained: number }
+  // Lose speed and get shoved away from the obstacle
+  | { kind: "knockback"; speedPenalty: number; knockback: number }
+  // Spring off the surface with a small hop
+  | { kind: "bounce"; restitution: number; hop: number };
+
+export const COLLISION_RESPONSES: Record<ObstacleType, CollisionResponse> = {
+  building: { kind: "stop" },
+  rock: { kind: "stop" },
+  tree: { kind: "stop" },
+  vehicle: {
+    kind: "deflect",
+    maxGlanceAngle: 35 * (Math.PI / 180),
+    speedRetained: 0.8,
+  },
+  person: { kind: "knockback", speedPenalty: 0.3, knockback: 2 },
+  elk: { kind: "knockback", speedPenalty: 0.5, knockback: 4 },
+  cactus: { kind: "bounce", restitution: 0.5, hop: 4 },
+};
+
+// Display names for the crash overlay
+export const OBSTACLE_NAMES: Record<ObstacleType, string> = {
+  building: "a building",
+  rock: "a rock",
+  tree: "a tree",
+  vehicle: "a vehicle",
+  person: "a pedestrian",
+  elk: "an elk",
+  cactus: "a cactus",
+};
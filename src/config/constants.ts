@@ -5,11 +5,19 @@ export const GROUND_FRICTION = 0.05;
 export const BOUNCE_DAMPING = 0.5;
 export const TUMBLE_SLOWDOWN = 0.95; // Speed multiplier when tumbling without wheels
 
+// Simulation timing
+export const PHYSICS_STEP = 1 / 120; // Fixed physics tick (seconds)
+export const MAX_FRAME_TIME = 0.25; // Longer frames are dropped, not caught up
+export const SLOW_MOTION_SCALE = 0.3; // World time per real second while slowed
+export const SLOW_MOTION_PER_RUN = 4; // Real seconds of slow motion per run
+
 // Launch constants
 export const MIN_PULL_DISTANCE = 0.3; // Small pull still launches (with minimum power)
 export const MAX_PULL_DISTANCE = 8;
 export const LAUNCH_POWER_MULTIPLIER = 15; // Much stronger launch
 export const LAUNCH_ANGLE = 30 * (Math.PI / 180); // 30 degrees - higher arc
+export const MIN_LAUNCH_POWER = 20; // Ensure launches always go somewhere
+export const MAX_LAUNCH_POWER = 200; // Cap maximum power
 
 // Plane dimensions
 export const PLANE_WIDTH = 1;
@@ -28,6 +36,11 @@ export const ZONES = {
   forest: { start: 3000, end: 6000, color: 0x228b22 },
 } as const;
 
+// World streaming - obstacles are built per chunk around the plane
+export const CHUNK_LENGTH = 100;
+export const CHUNK_LOAD_AHEAD = 400; // Build chunks this far in front
+export const CHUNK_KEEP_BEHIND = 100; // Dispose chunks once this far behind
+
 // Colors
 export const COLORS = {
   sky: 0x87ceeb,
@@ -39,4 +52,4 @@ export const COLORS = {
 };
 
 // Game states
-export type GameState = "ready" | "pulling" | "flying" | "crashed";
+export type GameState = "ready" | "pulling" | "flying" | "crashed" | "replay";
@@ -0,0 +1,49 @@
+import type { ZONES } from "./constants.ts";
+
+// Where coins and rings turn up in one zone. Heights are above the ground and
+// x is the offset from the centre line; a zone with no clusters and no ring
+// chains has no pickups.
+export interface PickupProfile {
+  clusterGap: number; // Average metres between coin clusters (0 = none)
+  chainGap: number; // Average metres between ring chains (0 = none)
+  height: { min: number; max: number };
+  spread: number; // Max |x|
+}
+
+export const PICKUP_ZONES: Record<keyof typeof ZONES, PickupProfile> = {
+  runway: { clusterGap: 0, chainGap: 0, height: { min: 0, max: 0 }, spread: 0 },
+  // Kept over the street, clear of the buildings either side
+  city: {
+    clusterGap: 120,
+    chainGap: 300,
+    height: { min: 4, max: 14 },
+    spread: 8,
+  },
+  desert: {
+    clusterGap: 150,
+    chainGap: 250,
+    height: { min: 5, max: 20 },
+    spread: 20,
+  },
+  // High enough to clear the canopy
+  forest: {
+    clusterGap: 180,
+    chainGap: 350,
+    height: { min: 10, max: 20 },
+    spread: 25,
+  },
+};
+
+export const COINS_PER_CLUSTER = 5;
+export const COIN_SPACING = 3; // Metres between coins in a cluster
+export const COIN_RADIUS = 0.6;
+export const COIN_VALUE = 5;
+
+export const RING_RADIUS = 2.5;
+export const RING_SPACING = 25; // Metres between rings in a chain
+export const RINGS_PER_CHAIN = { min: 3, max: 5 };
+// Each ring flown in sequence pays RING_VALUE times the current streak, up to
+// MAX_RING_STREAK; a whole chain cleared pays CHAIN_BONUS per ring on top
+export const RING_VALUE = 10;
+export const MAX_RING_STREAK = 10;
+export const CHAIN_BONUS = 20;
@@ -1,21 +1,64 @@
-export interface UpgradeTier {
-  cost: number;
-  [key: string]: number;
-}
+// Stats an upgrade tier can contribute. Each one has a neutral value (what the
+// plane has with no upgrades) and a rule for combining contributions from
+// several upgrades.
+export const UPGRADE_EFFECTS = {
+  lift: { base: 0, combine: "add" }, // Lift per unit of forward speed
+  control: { base: 0, combine: "add" }, // Lateral steering authority
+  stability: { base: 0, combine: "add" },
+  pitch: { base: 0, combine: "add" }, // Up/down steering authority
+  dragReduction: { base: 0, combine: "add" }, // Share of drag removed
+  friction: { base: 1, combine: "multiply" }, // Speed kept on a rolling landing
+  power: { base: 1, combine: "multiply" }, // Launch power multiplier
+  boost: { base: 0, combine: "add" }, // Booster impulse
+  uses: { base: 0, combine: "add" }, // Booster activations per run
+  fuel: { base: 0, combine: "add" }, // Throttle booster tank
+  thrust: { base: 0, combine: "add" }, // Throttle booster push at full throttle (m/s²)
+} as const satisfies Record<
+  string,
+  { base: number; combine: "add" | "multiply" }
+>;
+
+export type UpgradeEffect = keyof typeof UPGRADE_EFFECTS;
+
+// Behaviours an upgrade switches on, beyond its numeric effects
+export type UpgradeAbility =
+  | "glide" // Lift, steadier flight and pitch control
+  | "roll"; // Land on wheels instead of tumbling
+
+export type UpgradeTier = { cost: number } & Partial<
+  Record<UpgradeEffect, number>
+>;
 
-export interface UpgradeDefinition {
+export interface UpgradeDefinition<Key extends string = UpgradeKey> {
   name: string;
   description: string;
   maxTier: number;
-  tiers: UpgradeTier[];
-  requires?: string; // Upgrade that must be purchased first
+  tiers: readonly UpgradeTier[];
+  grants?: readonly UpgradeAbility[]; // Abilities any purchased tier switches on
+  requires?: Key; // Upgrade that must be purchased first
 }
 
-export const UPGRADES: Record<string, UpgradeDefinition> = {
+// Share of a tier's cost returned when it is sold
+export const REFUND_RATE = 0.5;
+
+export type UpgradeKey = keyof typeof UPGRADE_TABLE;
+
+// Purchased tier per upgrade (0 = not purchased, 1-10 = tier)
+export type UpgradeLevels = Record<UpgradeKey, number>;
+
+// Everything the flight simulation needs to know about the plane's upgrades
+export type UpgradeModifiers = Record<UpgradeEffect, number> & {
+  abilities: Record<UpgradeAbility, boolean>;
+};
+
+// Written out once; the keys become UpgradeKey and the rest of the game reads
+// it through UPGRADES, where every entry has the same shape
+const UPGRADE_TABLE = {
   wings: {
     name: "Wings",
     description: "Provides lift and enables sustained flight",
     maxTier: 10,
+    grants: ["glide"],
     tiers: [
       { cost: 100, lift: 0.1, control: 0.1 },
       { cost: 250, lift: 0.15, control: 0.15 },
@@ -33,6 +76,7 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     name: "Wheels",
     description: "Roll on ground instead of tumbling",
     maxTier: 10,
+    grants: ["roll"],
     requires: "wings",
     tiers: [
       { cost: 150, friction: 0.9 },
@@ -106,16 +150,137 @@ export const UPGRADES: Record<string, UpgradeDefinition> = {
     maxTier: 10,
     requires: "wings",
     tiers: [
-      { cost: 300, uses: 1, boost: 15 },
-      { cost: 600, uses: 2, boost: 18 },
-      { cost: 1000, uses: 3, boost: 21 },
-      { cost: 1500, uses: 4, boost: 24 },
-      { cost: 2200, uses: 5, boost: 27 },
-      { cost: 3000, uses: 6, boost: 30 },
-      { cost: 4000, uses: 7, boost: 33 },
-      { cost: 5200, uses: 8, boost: 36 },
-      { cost: 6800, uses: 9, boost: 39 },
-      { cost: 9000, uses: 10, boost: 45 }, // Tier 10: rear rocket!
+      { cost: 300, uses: 1, boost: 15, fuel: 10, thrust: 15 },
+      { cost: 600, uses: 2, boost: 18, fuel: 15, thrust: 17 },
+      { cost: 1000, uses: 3, boost: 21, fuel: 20, thrust: 19 },
+      { cost: 1500, uses: 4, boost: 24, fuel: 25, thrust: 21 },
+      { cost: 2200, uses: 5, boost: 27, fuel: 30, thrust: 23 },
+      { cost: 3000, uses: 6, boost: 30, fuel: 35, thrust: 25 },
+      { cost: 4000, uses: 7, boost: 33, fuel: 40, thrust: 27 },
+      { cost: 5200, uses: 8, boost: 36, fuel: 45, thrust: 29 },
+      { cost: 6800, uses: 9, boost: 39, fuel: 50, thrust: 31 },
+      { cost: 9000, uses: 10, boost: 45, fuel: 60, thrust: 35 }, // Tier 10: rear rocket!
     ],
   },
+} as const satisfies Record<string, UpgradeDefinition<string>>;
+
+export const UPGRADES: Record<UpgradeKey, UpgradeDefinition> = UPGRADE_TABLE;
+
+// Boosters either fire fixed one-shot boosts ("uses" x "boost") or burn fuel
+// for as long as the boost control is held
+export type BoosterMode = "discrete" | "continuous";
+
+export const BOOSTER_MODES: Record<BoosterMode, { label: string }> = {
+  discrete: { label: "Bursts" },
+  continuous: { label: "Throttle" },
 };
+
+export const FUEL_BURN_RATE = 10; // Fuel per second at full throttle
+export const THROTTLE_RATE = 4; // Throttle change per second as the engine spools
+
+// Share of full thrust and of full fuel burn at a throttle setting, as
+// [throttle, share] points joined by straight lines. Part throttle burns
+// proportionally less fuel than it gives up in thrust, so feathering the
+// boost stretches the tank.
+export type ThrottleCurve = [throttle: number, share: number][];
+
+export const THRUST_CURVE: ThrottleCurve = [
+  [0, 0],
+  [0.25, 0.4],
+  [0.5, 0.7],
+  [1, 1],
+];
+
+export const FUEL_BURN_CURVE: ThrottleCurve = [
+  [0, 0],
+  [0.25, 0.15],
+  [0.5, 0.4],
+  [1, 1],
+];
+
+export function sampleThrottleCurve(
+  curve: ThrottleCurve,
+  throttle: number,
+): number {
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (throttle <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return y0 + ((y1 - y0) * Math.max(0, throttle - x0)) / (x1 - x0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+export function createUpgradeLevels(): UpgradeLevels {
+  const levels = {} as UpgradeLevels;
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    levels[key] = 0;
+  }
+  return levels;
+}
+
+// Combine the effects of every purchased tier into one set of modifiers
+export function getUpgradeModifiers(levels: UpgradeLevels): UpgradeModifiers {
+  const modifiers = {
+    abilities: { glide: false, roll: false },
+  } as UpgradeModifiers;
+  for (const effect of Object.keys(UPGRADE_EFFECTS) as UpgradeEffect[]) {
+    modifiers[effect] = UPGRADE_EFFECTS[effect].base;
+  }
+
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    const tier = levels[key];
+    if (!(tier > 0)) continue;
+
+    const upgrade = UPGRADES[key];
+    const stats = upgrade.tiers[Math.min(tier, upgrade.maxTier) - 1];
+    for (const effect of Object.keys(UPGRADE_EFFECTS) as UpgradeEffect[]) {
+      const value = stats[effect];
+      if (value === undefined) continue;
+      modifiers[effect] =
+        UPGRADE_EFFECTS[effect].combine === "add"
+          ? modifiers[effect] + value
+          : modifiers[effect] * value;
+    }
+    upgrade.grants?.forEach((ability) => (modifiers.abilities[ability] = true));
+  }
+
+  return modifiers;
+}
+
+// Coins returned for selling the given tier
+export function getRefundValue(key: UpgradeKey, tier: number): number {
+  return tier > 0
+    ? Math.floor(UPGRADES[key].tiers[tier - 1].cost * REFUND_RATE)
+    : 0;
+}
+
+// Upgrade that still depends on this one, if selling its last tier would
+// break a requires chain
+export function getSaleBlocker(
+  levels: UpgradeLevels,
+  key: UpgradeKey,
+): UpgradeKey | null {
+  if (levels[key] !== 1) return null;
+  const dependent = (Object.keys(UPGRADES) as UpgradeKey[]).find(
+    (other) => UPGRADES[other].requires === key && levels[other] > 0,
+  );
+  return dependent ?? null;
+}
+
+// Limit levels to what is owned, dropping upgrades whose requirement is gone
+export function clampLevels(
+  levels: UpgradeLevels,
+  owned: UpgradeLevels,
+): UpgradeLevels {
+  const clamped = createUpgradeLevels();
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    clamped[key] = Math.max(0, Math.min(levels[key], owned[key]));
+  }
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    const requires = UPGRADES[key].requires;
+    if (requires && clamped[requires] === 0) clamped[key] = 0;
+  }
+  return clamped;
+}
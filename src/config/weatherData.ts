@@ -0,0 +1,64 @@
+// Weather presets. Each one tints and dims the time-of-day lighting, pulls
+// the fog in and may slow the plane down. Drag is part of the flight
+// simulation, so a run's weather is recorded in its replay.
+export interface WeatherPreset {
+  name: string;
+  tint: number; // Colour blended into sky, fog and lights
+  tintAmount: number; // 0 = untouched, 1 = all tint
+  light: number; // Light intensity multiplier
+  fogNear: number;
+  fogFar: number;
+  drag: number; // Air drag multiplier
+  rain: boolean;
+  timeOfDay?: number; // Holds the clock at this time (0-1) while active
+}
+
+export type WeatherKey = "clear" | "overcast" | "rain" | "duskHaze";
+
+export const WEATHER: Record<WeatherKey, WeatherPreset> = {
+  clear: {
+    name: "Clear",
+    tint: 0xffffff,
+    tintAmount: 0,
+    light: 1,
+    fogNear: 250,
+    fogFar: 600,
+    drag: 1,
+    rain: false,
+  },
+  overcast: {
+    name: "Overcast",
+    tint: 0x9aa5b1,
+    tintAmount: 0.6,
+    light: 0.65,
+    fogNear: 100,
+    fogFar: 400,
+    drag: 1,
+    rain: false,
+  },
+  // Heavy air and a short view
+  rain: {
+    name: "Rain",
+    tint: 0x6b7785,
+    tintAmount: 0.7,
+    light: 0.45,
+    fogNear: 20,
+    fogFar: 160,
+    drag: 1.2,
+    rain: true,
+  },
+  duskHaze: {
+    name: "Dusk haze",
+    tint: 0xd8a878,
+    tintAmount: 0.4,
+    light: 0.85,
+    fogNear: 40,
+    fogFar: 260,
+    drag: 1,
+    rain: false,
+    timeOfDay: 0.74,
+  },
+};
+
+// Real seconds for a full day-night cycle
+export const DAY_LENGTH = 300;
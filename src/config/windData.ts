@@ -0,0 +1,53 @@
+import type { ZONES } from "./constants.ts";
+
+// Wind felt in one zone: a prevailing breeze, gusts that build and fade over
+// time, and thermals - columns of rising air spaced along the course. Speeds
+// are in m/s; +x is to the player's left, +z is the direction of flight.
+export interface WindProfile {
+  prevailing: { x: number; y: number; z: number };
+  gust: number; // Peak crosswind from a gust
+  gustPeriod: number; // Seconds per gust cycle
+  thermal: number; // Peak updraft in the middle of a thermal
+  thermalSpacing: number; // Metres from one thermal to the next
+}
+
+export const WIND_ZONES: Record<keyof typeof ZONES, WindProfile> = {
+  runway: {
+    prevailing: { x: 0, y: 0, z: -1 },
+    gust: 1,
+    gustPeriod: 6,
+    thermal: 0,
+    thermalSpacing: 100,
+  },
+  // Street canyons funnel short, strong crosswind gusts
+  city: {
+    prevailing: { x: 1, y: 0, z: -1 },
+    gust: 7,
+    gustPeriod: 2.5,
+    thermal: 0,
+    thermalSpacing: 100,
+  },
+  // Hot sand sends up thermals a glider can ride
+  desert: {
+    prevailing: { x: 0, y: 0, z: 1 },
+    gust: 2,
+    gustPeriod: 8,
+    thermal: 9,
+    thermalSpacing: 180,
+  },
+  // Sheltered by the canopy
+  forest: {
+    prevailing: { x: 0, y: 0, z: 0 },
+    gust: 0.5,
+    gustPeriod: 10,
+    thermal: 0,
+    thermalSpacing: 100,
+  },
+};
+
+// Distance into a zone over which the previous zone's wind fades out
+export const WIND_BLEND_DISTANCE = 60;
+
+// How hard the wind shoves the plane, per m/s of wind, on top of its effect
+// on drag and lift
+export const WIND_PUSH = 0.4;
@@ -0,0 +1,143 @@
+// Keyboard action map. Gameplay code asks about actions ("steerLeft"), never
+// keys; which keys trigger an action is player data saved with the profile.
+// Keys are KeyboardEvent.code values, so bindings follow physical positions
+// regardless of keyboard layout.
+
+export const ACTIONS = {
+  steerLeft: { label: "Steer left" },
+  steerRight: { label: "Steer right" },
+  pitchUp: { label: "Pitch up" },
+  pitchDown: { label: "Pitch down" },
+  boost: { label: "Boost" },
+  pause: { label: "Pause" },
+  restart: { label: "Restart" },
+  camera: { label: "Change camera" },
+  slowMotion: { label: "Slow motion" },
+} as const satisfies Record<string, { label: string }>;
+
+export type Action = keyof typeof ACTIONS;
+
+// Keys per action, in slot order (primary, secondary)
+export type Bindings = Record<Action, string[]>;
+
+export const KEYS_PER_ACTION = 2;
+
+const DEFAULT_BINDINGS: Bindings = {
+  steerLeft: ["ArrowLeft", "KeyA"],
+  steerRight: ["ArrowRight", "KeyD"],
+  pitchUp: ["ArrowUp", "KeyW"],
+  pitchDown: ["ArrowDown", "KeyS"],
+  boost: ["Space"],
+  pause: ["Escape", "KeyP"],
+  restart: ["KeyR"],
+  camera: ["KeyC"],
+  slowMotion: ["ShiftLeft"],
+};
+
+export function createDefaultBindings(): Bindings {
+  return cloneBindings(DEFAULT_BINDINGS);
+}
+
+export function cloneBindings(bindings: Bindings): Bindings {
+  const copy = {} as Bindings;
+  for (const action of Object.keys(ACTIONS) as Action[]) {
+    copy[action] = [...bindings[action]];
+  }
+  return copy;
+}
+
+export function bindingsMatch(a: Bindings, b: Bindings): boolean {
+  return (Object.keys(ACTIONS) as Action[]).every(
+    (action) => a[action].join() === b[action].join(),
+  );
+}
+
+export function getActionForKey(
+  bindings: Bindings,
+  code: string,
+): Action | null {
+  for (const action of Object.keys(ACTIONS) as Action[]) {
+    if (bindings[action].includes(code)) return action;
+  }
+  return null;
+}
+
+// Bind a key to one slot of an action. A key can only drive one action, so
+// binding one that is already taken elsewhere fails and names the conflict.
+export function bindKey(
+  bindings: Bindings,
+  action: Action,
+  slot: number,
+  code: string,
+): { bindings: Bindings } | { conflict: Action } {
+  const owner = getActionForKey(bindings, code);
+  if (owner && owner !== action) return { conflict: owner };
+
+  const next = cloneBindings(bindings);
+  const keys = next[action];
+  const existing = keys.indexOf(code);
+  if (slot < keys.length) {
+    if (existing >= 0) keys[existing] = keys[slot]; // Swap the two slots
+    keys[slot] = code;
+  } else if (existing < 0) {
+    keys.push(code);
+  }
+  return { bindings: next };
+}
+
+export function unbindKey(
+  bindings: Bindings,
+  action: Action,
+  slot: number,
+): Bindings {
+  const next = cloneBindings(bindings);
+  next[action].splice(slot, 1);
+  return next;
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  Enter: "Enter",
+  Space: "Space",
+  ShiftLeft: "Left Shift",
+  ShiftRight: "Right Shift",
+  ControlLeft: "Left Ctrl",
+  ControlRight: "Right Ctrl",
+  AltLeft: "Left Alt",
+  AltRight: "Right Alt",
+};
+
+// Short label for a key code, e.g. "KeyA" -> "A", "Digit1" -> "1"
+export function describeKey(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  if (/^Numpad\d$/.test(code)) return `Num ${code.slice(6)}`;
+  return code;
+}
+
+// One-line controls hint, e.g. "←/A →/D to steer | Space to boost"; actions
+// with no keys are left out
+export function describeControls(bindings: Bindings): string {
+  const keys = (...actions: Action[]) =>
+    actions
+      .map((action) => bindings[action].map(describeKey).join("/"))
+      .filter(Boolean)
+      .join(" ");
+  return [
+    [keys("steerLeft", "steerRight"), "to steer"],
+    [keys("pitchUp", "pitchDown"), "to pitch"],
+    [keys("boost"), "to boost"],
+    [keys("pause"), "to pause"],
+    [keys("restart"), "to restart"],
+    [keys("camera"), "to change camera"],
+    [keys("slowMotion"), "for slow motion"],
+  ]
+    .filter(([label]) => label)
+    .map(([label, verb]) => `${label} ${verb}`)
+    .join(" | ");
+}
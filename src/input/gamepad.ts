@@ -0,0 +1,78 @@
+// Gamepad polling over the standard mapping (Xbox-style layout). Snapshots
+// are plain data; compare consecutive ones with wasPressed to find presses.
+
+export type GamepadButton =
+  | "a"
+  | "b"
+  | "x"
+  | "y"
+  | "lb"
+  | "start"
+  | "up"
+  | "down"
+  | "left"
+  | "right";
+
+export interface GamepadSnapshot {
+  stick: { x: number; y: number }; // Left stick, -1..1, +y is down
+  pull: number; // Right trigger, 0..1
+  buttons: Record<GamepadButton, boolean>;
+}
+
+const STICK_DEAD_ZONE = 0.15;
+const TRIGGER_DEAD_ZONE = 0.05;
+
+// Button indices in the standard mapping
+const BUTTON_INDEX: Record<GamepadButton, number> = {
+  a: 0,
+  b: 1,
+  x: 2,
+  y: 3,
+  lb: 4,
+  start: 9,
+  up: 12,
+  down: 13,
+  left: 14,
+  right: 15,
+};
+const RIGHT_TRIGGER = 7;
+
+// Radial dead zone, rescaled so output still starts at 0 and reaches 1
+function applyDeadZone(x: number, y: number) {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < STICK_DEAD_ZONE) return { x: 0, y: 0 };
+  const scale =
+    Math.min(1, (magnitude - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE)) /
+    magnitude;
+  return { x: x * scale, y: y * scale };
+}
+
+// First connected pad, or null when none is plugged in (or the browser
+// doesn't support the Gamepad API)
+export function readGamepad(): GamepadSnapshot | null {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return null;
+
+  const pad = navigator.getGamepads().find((candidate) => candidate?.connected);
+  if (!pad) return null;
+
+  const pressed = (index: number) => pad.buttons[index]?.pressed ?? false;
+  const buttons = {} as Record<GamepadButton, boolean>;
+  for (const button of Object.keys(BUTTON_INDEX) as GamepadButton[]) {
+    buttons[button] = pressed(BUTTON_INDEX[button]);
+  }
+
+  const trigger = pad.buttons[RIGHT_TRIGGER]?.value ?? 0;
+  return {
+    stick: applyDeadZone(pad.axes[0] ?? 0, pad.axes[1] ?? 0),
+    pull: trigger < TRIGGER_DEAD_ZONE ? 0 : trigger,
+    buttons,
+  };
+}
+
+export function wasPressed(
+  current: GamepadSnapshot | null,
+  previous: GamepadSnapshot | null,
+  button: GamepadButton,
+): boolean {
+  return !!current?.buttons[button] && !previous?.buttons[button];
+}
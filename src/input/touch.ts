@@ -0,0 +1,54 @@
+// On-screen virtual stick for touch screens. The stick is plain data driven
+// by pointer events; each stick follows one pointer so a second finger (e.g.
+// on the boost button) can't hijack it.
+
+export interface TouchStick {
+  pointerId: number | null;
+  origin: { x: number; y: number }; // Where the finger went down
+  value: { x: number; y: number }; // -1..1, +y is down
+}
+
+const DEAD_ZONE = 0.1;
+
+export function createTouchStick(): TouchStick {
+  return { pointerId: null, origin: { x: 0, y: 0 }, value: { x: 0, y: 0 } };
+}
+
+// Returns false when the stick is already held by another pointer
+export function pressStick(
+  stick: TouchStick,
+  pointerId: number,
+  x: number,
+  y: number,
+): boolean {
+  if (stick.pointerId !== null) return false;
+  stick.pointerId = pointerId;
+  stick.origin = { x, y };
+  stick.value = { x: 0, y: 0 };
+  return true;
+}
+
+// Offset from the press point over the radius, clamped to the unit circle
+export function moveStick(
+  stick: TouchStick,
+  pointerId: number,
+  x: number,
+  y: number,
+  radius: number,
+) {
+  if (stick.pointerId !== pointerId) return;
+  let dx = (x - stick.origin.x) / radius;
+  let dy = (y - stick.origin.y) / radius;
+  const magnitude = Math.hypot(dx, dy);
+  if (magnitude > 1) {
+    dx /= magnitude;
+    dy /= magnitude;
+  }
+  stick.value = magnitude < DEAD_ZONE ? { x: 0, y: 0 } : { x: dx, y: dy };
+}
+
+export function releaseStick(stick: TouchStick, pointerId: number) {
+  if (stick.pointerId !== pointerId) return;
+  stick.pointerId = null;
+  stick.value = { x: 0, y: 0 };
+}
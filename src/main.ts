@@ -1,41 +1,187 @@
 import * as THREE from "three";
 import {
-  GRAVITY,
-  BASE_DRAG,
-  BOUNCE_DAMPING,
-  TUMBLE_SLOWDOWN,
   MIN_PULL_DISTANCE,
   MAX_PULL_DISTANCE,
-  LAUNCH_POWER_MULTIPLIER,
   PLANE_WIDTH,
   PLANE_HEIGHT,
   PLANE_LENGTH,
-  CAMERA_OFFSET,
-  CAMERA_LERP_SPEED,
+  GRAVITY,
+  PHYSICS_STEP,
+  MAX_FRAME_TIME,
+  SLOW_MOTION_PER_RUN,
+  SLOW_MOTION_SCALE,
+  CHUNK_LENGTH,
+  CHUNK_LOAD_AHEAD,
+  CHUNK_KEEP_BEHIND,
   ZONES,
   COLORS,
   type GameState,
 } from "./config/constants.ts";
-import { UPGRADES } from "./config/upgradeData.ts";
+import {
+  BOOSTER_MODES,
+  UPGRADES,
+  clampLevels,
+  createUpgradeLevels,
+  getRefundValue,
+  getSaleBlocker,
+  getUpgradeModifiers,
+  type BoosterMode,
+  type UpgradeKey,
+  type UpgradeLevels,
+  type UpgradeModifiers,
+} from "./config/upgradeData.ts";
+import {
+  applyBoost,
+  createLaunchState,
+  interpolatePose,
+  predictTrajectory,
+  step,
+  type FlightInput,
+  type FlightState,
+  type LaunchParams,
+  type Vec3,
+} from "./physics/flightSim.ts";
+import { CALM } from "./physics/wind.ts";
+import { DAY_LENGTH, WEATHER, type WeatherKey } from "./config/weatherData.ts";
+import { getSkyState } from "./world/sky.ts";
+import {
+  CAMERA_MODES,
+  createCameraRig,
+  getNextCameraMode,
+  startOrbit,
+  updateCameraRig,
+  type CameraSubject,
+} from "./world/camera.ts";
+import {
+  createRecorder,
+  finishRecording,
+  parseReplay,
+  quantizeInput,
+  recordBoost,
+  recordImpact,
+  recordTick,
+  serializeReplay,
+  simulateReplay,
+  type Replay,
+  type ReplayOutcome,
+  type ReplayRecorder,
+} from "./replay/replay.ts";
+import {
+  createGhostPath,
+  loadGhost,
+  sampleGhost,
+  saveGhostIfBest,
+  type GhostPath,
+} from "./replay/ghost.ts";
+import {
+  createRandom,
+  generateSeed,
+  getDailySeed,
+  hashSeed,
+  nextRandom,
+  normalizeSeed,
+} from "./utils/random.ts";
+import {
+  CHUNK_COUNT,
+  generateChunkLayout,
+  generateChunkPickups,
+  type ObstacleSpec,
+  type ObstacleType,
+  type PickupSpec,
+} from "./world/layout.ts";
+import {
+  collectCoin,
+  createPickupTally,
+  crossRing,
+  missRing,
+  passRing,
+  touchesCoin,
+  type PickupTally,
+} from "./world/pickups.ts";
+import { COIN_RADIUS, RING_RADIUS } from "./config/pickupData.ts";
+import {
+  createInstancePool,
+  type InstanceHandle,
+  type InstancePool,
+} from "./world/instancing.ts";
+import {
+  createSpatialGrid,
+  getSweptBounds,
+  resolveCollision,
+  sweepAabb,
+  type SweepHit,
+} from "./physics/collision.ts";
+import { COLLISION_RESPONSES, OBSTACLE_NAMES } from "./config/collisionData.ts";
+import {
+  createRagdoll,
+  isRagdollExpired,
+  stepRagdoll,
+  type Ragdoll,
+} from "./physics/ragdoll.ts";
+import {
+  createDebris,
+  getCrashSeverity,
+  getReboundVelocity,
+} from "./physics/debris.ts";
+import {
+  decodeSaveCode,
+  describeSaveChanges,
+  encodeSaveCode,
+  loadSave,
+  parseSaveFile,
+  serializeSave,
+  writeSave,
+  MAX_LOADOUTS,
+  MAX_LOADOUT_NAME,
+  SAVE_VERSION,
+  type CheckpointUnlocks,
+  type Loadout,
+  type SaveData,
+} from "./save/save.ts";
+import {
+  readGamepad,
+  wasPressed,
+  type GamepadButton,
+  type GamepadSnapshot,
+} from "./input/gamepad.ts";
+import {
+  createTouchStick,
+  moveStick,
+  pressStick,
+  releaseStick,
+} from "./input/touch.ts";
+import {
+  ACTIONS,
+  KEYS_PER_ACTION,
+  bindKey,
+  cloneBindings,
+  createDefaultBindings,
+  describeControls,
+  describeKey,
+  getActionForKey,
+  unbindKey,
+  type Action,
+} from "./input/bindings.ts";
 
 // Game state
 let gameState: GameState = "ready";
 let coins = 0;
 let distance = 0;
 let boosterUsesRemaining = 0;
+let boosterMode: BoosterMode = "discrete";
+let fuelTank = 0; // Fuel the run launched with; 0 when boosting in bursts
 
 // Upgrade levels (0 = not purchased, 1-10 = tier)
-const upgrades = {
-  wings: 0,
-  wheels: 0,
-  tail: 0,
-  aerodynamic: 0,
-  slingshot: 0,
-  boosters: 0,
-};
+const upgrades: UpgradeLevels = createUpgradeLevels();
+// Tiers actually flown with - at most what is owned
+const equipped: UpgradeLevels = createUpgradeLevels();
+const loadouts: Loadout[] = [];
+let respecPending = false; // Respec asks for a second click
+// Combined upgrade effects, fixed for the duration of a run
+let flightModifiers: UpgradeModifiers = getUpgradeModifiers(upgrades);
 
 // Checkpoints
-const checkpoints = {
+const checkpoints: CheckpointUnlocks = {
   runway: true, // Always unlocked
   city: false,
   desert: false,
@@ -43,27 +189,58 @@ const checkpoints = {
 };
 let currentCheckpoint: keyof typeof checkpoints = "runway";
 let highestDistanceThisRun = 0;
+let savedHighestDistance = 0; // Best distance across all runs
 let startingZ = 0; // Track where we launched from
 
-// Keyboard input state
-const keys = {
-  left: false,
-  right: false,
-  up: false,
-  down: false,
-  boost: false,
-};
+// World seed - same seed, same obstacle layout
+let worldSeed = generateSeed();
+
+// Keyboard input state: the action map and the physical keys held down
+let bindings = createDefaultBindings();
+const heldKeys = new Set<string>();
+let capturingBinding: { action: Action; slot: number } | null = null;
+// Paused mid-flight: the world is frozen behind the pause menu
+let paused = false;
+
+// Slow motion scales how fast world time passes, not the physics step
+let timeScale = 1;
+let slowMotionLeft = 0; // Real seconds left this run
+let touchSlowHeld = false;
+
+// The last shot fired, so a run can be restarted with the same pull
+let lastShot: { pullDistance: number; launchAngle: number } | null = null;
+
+// Gamepad state, polled once per frame
+let gamepad: GamepadSnapshot | null = null;
+let previousGamepad: GamepadSnapshot | null = null;
+let gamepadPulling = false;
+let gamepadPullPeak: { distance: number; angle: number; time: number } | null =
+  null;
+const TRIGGER_RELEASE_WINDOW = 150; // ms; a snapped trigger reads low before it reads 0
+
+// On-screen flight controls, shown once the player has used a touch screen
+let touchControlsEnabled = false;
+const touchStick = createTouchStick();
+let touchBoostHeld = false;
 
 // Three.js objects
 let scene: THREE.Scene;
 let camera: THREE.PerspectiveCamera;
 let renderer: THREE.WebGLRenderer;
 let plane: THREE.Group;
+// Half size of the plane's collision box, measured level whenever its parts
+// change
+const planeHalfExtents = new THREE.Vector3();
 let slingshot: THREE.Group;
 let rubberBandLeft: THREE.Line;
 let rubberBandRight: THREE.Line;
 let ground: THREE.Mesh;
 
+// Camera mode and the state it moves with; the mode is saved
+const cameraRig = createCameraRig("chase");
+let cameraRoll = 0;
+let cameraLabelTimer = 0;
+const CAMERA_LABEL_TIME = 1.5; // seconds
 // Booster effects
 let boosterParticles: THREE.Points | null = null;
 let boosterActive = false;
@@ -72,19 +249,124 @@ const BOOSTER_DURATION = 0.5; // seconds
 
 // Obstacles
 interface Obstacle {
-  mesh: THREE.Object3D;
+  mesh: THREE.Object3D | null; // null for instanced scenery
+  instances: InstanceHandle[];
   boundingBox: THREE.Box3;
-  type: string;
+  type: ObstacleType;
+  dynamic: boolean; // Moving obstacles refresh their bounds every check
 }
-const obstacles: Obstacle[] = [];
-
-// Physics state
-let velocity = new THREE.Vector3();
-let angularVelocity = new THREE.Vector3();
+// Static obstacles live in a grid with bounds fixed at creation; the few
+// moving ones are checked from a plain list
+const staticObstacles = createSpatialGrid<Obstacle>();
+const dynamicObstacles: Obstacle[] = [];
+// Obstacles already hit and survived this run; they no longer collide
+const resolvedObstacles = new Set<Obstacle>();
+const loadedChunks = new Map<number, Obstacle[]>();
+
+// People and animals that were hit; their meshes move to the scene root and
+// follow the ragdoll until it has settled
+interface ActiveRagdoll {
+  body: Ragdoll;
+  meshes: THREE.Object3D[];
+}
+const ragdolls: ActiveRagdoll[] = [];
+let ragdollAccumulator = 0;
+let worldDisturbed = false; // Obstacles were knocked out of their chunks
+
+// Crash aftermath: the plane and the parts that broke off it, with sparks and
+// smoke, circled by the camera until Continue
+interface Wreck {
+  body: Ragdoll;
+  pieces: THREE.Object3D[]; // pieces[0] is the plane group itself
+  detached: {
+    mesh: THREE.Object3D;
+    position: THREE.Vector3;
+    rotation: THREE.Euler;
+  }[];
+  sparks: THREE.Points;
+  sparkVelocities: Float32Array;
+  smoke: THREE.Points | null;
+  time: number;
+}
+let wreck: Wreck | null = null;
+let wreckAccumulator = 0;
+const SPARK_LIFETIME = 1; // seconds
+const SMOKE_HEIGHT = 6;
+
+// Instanced scenery - one draw call per part type
+type SceneryPart =
+  | "treeTrunk"
+  | "treeFoliage"
+  | "cactusStem"
+  | "cactusArm"
+  | "rock"
+  | "building"
+  | "window";
+let sceneryPools: Record<SceneryPart, InstancePool>;
+
+// Coins and rings, built and dropped with their chunks. Results are kept by
+// pickup id for the whole run, so a rebuilt chunk doesn't hand out coins twice.
+interface Pickup {
+  spec: PickupSpec;
+  mesh: THREE.Mesh;
+}
+type PickupResult = "taken" | "through" | "missed";
+const loadedPickups = new Map<number, Pickup[]>();
+const pickupResults = new Map<string, PickupResult>();
+let pickupTally: PickupTally = createPickupTally();
+let coinGeometry: THREE.CylinderGeometry;
+let coinMaterial: THREE.MeshLambertMaterial;
+let ringGeometry: THREE.TorusGeometry;
+const RING_COLORS = { waiting: 0xf39c12, through: 0x2ecc71, missed: 0xe74c3c };
+const COIN_SPIN_SPEED = 3; // radians per second
+
+// Physics state (null while on the slingshot)
+let flight: FlightState | null = null;
+let previousFlight: FlightState | null = null; // Last tick, for interpolation
+let physicsAccumulator = 0;
+
+// Run recording and replay playback
+let recorder: ReplayRecorder | null = null;
+let lastReplay: Replay | null = null;
+let activeReplay: Replay | null = null;
+let replayFrames: FlightState[] = [];
+let replayTime = 0;
+let replayTick = 0;
+let replayPlaying = false;
+
+// Wind changes every run; run N on a seed always gets the same wind
+let windRun = 0;
+let windMotes: THREE.Points;
+const WIND_MOTE_COUNT = 300;
+const WIND_MOTE_BOX = { x: 40, y: 20, z: 60 }; // Region kept around the plane
+
+// Time of day (0-1, 0.5 = noon) and weather. "seed" lets the world seed pick
+// the weather.
+let timeOfDay = 0.5;
+let weatherChoice: WeatherKey | "seed" = "seed";
+let weather: WeatherKey = "clear";
+let ambientLight: THREE.AmbientLight;
+let sunLight: THREE.DirectionalLight;
+let skyDome: THREE.Mesh<THREE.SphereGeometry, THREE.ShaderMaterial>;
+let rain: THREE.LineSegments;
+const RAIN_DROP_COUNT = 800;
+const RAIN_BOX = { x: 60, y: 30, z: 60 }; // Region kept around the camera
+const RAIN_SPEED = 30;
+const RAIN_STREAK = 0.6; // Streak length in metres
+
+// Aiming arc shown while pulling
+let trajectoryArc: THREE.Points;
+let landingMarker: THREE.Mesh;
+const ARC_SAMPLE_TICKS = 6; // One dot every 6 physics ticks (20 per second)
+const MAX_ARC_POINTS = 400;
+
+// Personal-best ghost for the current seed + checkpoint
+let ghostPlane: THREE.Group;
+let activeGhost: GhostPath | null = null;
 const planePosition = new THREE.Vector3(0, 1, 0);
 
 // Input state
-let isDragging = false;
+let pullPointerId: number | null = null; // Pointer driving the slingshot pull
 let pullDistance = 0;
 let launchAngle = 0.5; // 0 = flat, 1 = steep (controlled by vertical drag)
 const pullStart = new THREE.Vector2();
@@ -102,6 +384,7 @@ let launchInstructions: HTMLElement;
 let crashOverlay: HTMLElement;
 let crashDistance: HTMLElement;
 let crashCoins: HTMLElement;
+let crashCause: HTMLElement;
 let continueBtn: HTMLElement;
 let hudElement: HTMLElement;
 let coinCount: HTMLElement;
@@ -112,8 +395,78 @@ let closeUpgradesBtn: HTMLElement;
 let playBtn: HTMLElement;
 let boosterDisplay: HTMLElement;
 let boosterCount: HTMLElement;
+let fuelDisplay: HTMLElement;
+let fuelLevel: HTMLElement;
+let pickupDisplay: HTMLElement;
+let pickupBonus: HTMLElement;
+let ringStreak: HTMLElement;
+let crashPickups: HTMLElement;
+let ghostDisplay: HTMLElement;
 let checkpointSelector: HTMLElement;
 let checkpointButtons: NodeListOf<HTMLElement>;
+let seedPanel: HTMLElement;
+let seedInput: HTMLInputElement;
+let seedDailyBtn: HTMLElement;
+let seedRandomBtn: HTMLElement;
+let replayBtn: HTMLButtonElement;
+let replayExportBtn: HTMLButtonElement;
+let replayImportBtn: HTMLElement;
+let replayFileInput: HTMLInputElement;
+let replayMessage: HTMLElement;
+let replayControls: HTMLElement;
+let replayPlayBtn: HTMLElement;
+let replayScrub: HTMLInputElement;
+let replayTimeDisplay: HTMLElement;
+let replayExitBtn: HTMLElement;
+let loadoutPanel: HTMLElement;
+let loadoutSelect: HTMLSelectElement;
+let loadoutList: HTMLElement;
+let loadoutNameInput: HTMLInputElement;
+let loadoutSaveBtn: HTMLButtonElement;
+let respecBtn: HTMLButtonElement;
+let saveNotice: HTMLElement;
+let saveNoticeText: HTMLElement;
+let saveNoticeBtn: HTMLElement;
+let saveExportFileBtn: HTMLElement;
+let saveImportFileBtn: HTMLElement;
+let saveFileInput: HTMLInputElement;
+let saveCodeInput: HTMLInputElement;
+let saveCopyCodeBtn: HTMLElement;
+let saveImportCodeBtn: HTMLElement;
+let saveTransferMessage: HTMLElement;
+let saveImportConfirm: HTMLElement;
+let saveImportDiff: HTMLElement;
+let saveImportApplyBtn: HTMLElement;
+let saveImportCancelBtn: HTMLElement;
+let touchControls: HTMLElement;
+let landingLabel: HTMLElement;
+let windArrow: HTMLElement;
+let weatherPanel: HTMLElement;
+let weatherSelect: HTMLSelectElement;
+let windSpeed: HTMLElement;
+let controlsHint: HTMLElement;
+let pauseMenu: HTMLElement;
+let pauseResumeBtn: HTMLElement;
+let pauseRetryBtn: HTMLElement;
+let pauseSettingsBtn: HTMLElement;
+let pauseQuitBtn: HTMLElement;
+let slowMotionDisplay: HTMLElement;
+let slowMotionLevel: HTMLElement;
+let touchSlowBtn: HTMLElement;
+let settingsMenu: HTMLElement;
+let settingsBtn: HTMLElement;
+let closeSettingsBtn: HTMLElement;
+let bindingsList: HTMLElement;
+let bindingsMessage: HTMLElement;
+let bindingsResetBtn: HTMLElement;
+let touchStickBase: HTMLElement;
+let touchStickKnob: HTMLElement;
+let touchBoostBtn: HTMLElement;
+let touchCameraBtn: HTMLElement;
+let cameraLabel: HTMLElement;
+
+// Save waiting for the player to confirm the import
+let pendingImport: SaveData | null = null;
 
 function init() {
   // Get DOM elements
@@ -123,7 +476,66 @@ function init() {
   crashOverlay = document.getElementById("crash-overlay")!;
   crashDistance = document.getElementById("crash-distance")!;
   crashCoins = document.getElementById("crash-coins")!;
+  crashCause = document.getElementById("crash-cause")!;
   continueBtn = document.getElementById("continue-btn")!;
+  loadoutPanel = document.getElementById("loadout-panel")!;
+  loadoutSelect = document.getElementById(
+    "loadout-select",
+  ) as HTMLSelectElement;
+  loadoutList = document.getElementById("loadout-list")!;
+  loadoutNameInput = document.getElementById(
+    "loadout-name-input",
+  ) as HTMLInputElement;
+  loadoutSaveBtn = document.getElementById(
+    "loadout-save-btn",
+  ) as HTMLButtonElement;
+  respecBtn = document.getElementById("respec-btn") as HTMLButtonElement;
+  saveNotice = document.getElementById("save-notice")!;
+  saveNoticeText = document.getElementById("save-notice-text")!;
+  saveNoticeBtn = document.getElementById("save-notice-btn")!;
+  saveExportFileBtn = document.getElementById("save-export-file-btn")!;
+  saveImportFileBtn = document.getElementById("save-import-file-btn")!;
+  saveFileInput = document.getElementById(
+    "save-file-input",
+  ) as HTMLInputElement;
+  saveCodeInput = document.getElementById(
+    "save-code-input",
+  ) as HTMLInputElement;
+  saveCopyCodeBtn = document.getElementById("save-copy-code-btn")!;
+  saveImportCodeBtn = document.getElementById("save-import-code-btn")!;
+  saveTransferMessage = document.getElementById("save-transfer-message")!;
+  saveImportConfirm = document.getElementById("save-import-confirm")!;
+  saveImportDiff = document.getElementById("save-import-diff")!;
+  saveImportApplyBtn = document.getElementById("save-import-apply-btn")!;
+  saveImportCancelBtn = document.getElementById("save-import-cancel-btn")!;
+  touchControls = document.getElementById("touch-controls")!;
+  landingLabel = document.getElementById("landing-label")!;
+  windArrow = document.getElementById("wind-arrow")!;
+  weatherPanel = document.getElementById("weather-panel")!;
+  weatherSelect = document.getElementById(
+    "weather-select",
+  ) as HTMLSelectElement;
+  windSpeed = document.getElementById("wind-speed")!;
+  controlsHint = document.getElementById("controls-hint")!;
+  pauseMenu = document.getElementById("pause-menu")!;
+  pauseResumeBtn = document.getElementById("pause-resume-btn")!;
+  pauseRetryBtn = document.getElementById("pause-retry-btn")!;
+  pauseSettingsBtn = document.getElementById("pause-settings-btn")!;
+  pauseQuitBtn = document.getElementById("pause-quit-btn")!;
+  slowMotionDisplay = document.getElementById("slow-motion-display")!;
+  slowMotionLevel = document.getElementById("slow-motion-level")!;
+  touchSlowBtn = document.getElementById("touch-slow-btn")!;
+  settingsMenu = document.getElementById("settings-menu")!;
+  settingsBtn = document.getElementById("settings-btn")!;
+  closeSettingsBtn = document.getElementById("close-settings")!;
+  bindingsList = document.getElementById("bindings-list")!;
+  bindingsMessage = document.getElementById("bindings-message")!;
+  bindingsResetBtn = document.getElementById("bindings-reset-btn")!;
+  touchStickBase = document.getElementById("touch-stick")!;
+  touchStickKnob = document.getElementById("touch-stick-knob")!;
+  touchBoostBtn = document.getElementById("touch-boost-btn")!;
+  touchCameraBtn = document.getElementById("touch-camera-btn")!;
+  cameraLabel = document.getElementById("camera-label")!;
   hudElement = document.getElementById("hud")!;
   coinCount = document.getElementById("coin-count")!;
   upgradeMenu = document.getElementById("upgrade-menu")!;
@@ -133,10 +545,42 @@ function init() {
   playBtn = document.getElementById("play-btn")!;
   boosterDisplay = document.getElementById("booster-display")!;
   boosterCount = document.getElementById("booster-count")!;
+  fuelDisplay = document.getElementById("fuel-display")!;
+  fuelLevel = document.getElementById("fuel-level")!;
+  pickupDisplay = document.getElementById("pickup-display")!;
+  pickupBonus = document.getElementById("pickup-bonus")!;
+  ringStreak = document.getElementById("ring-streak")!;
+  crashPickups = document.getElementById("crash-pickups")!;
+  ghostDisplay = document.getElementById("ghost-display")!;
   checkpointSelector = document.getElementById("checkpoint-selector")!;
   checkpointButtons = document.querySelectorAll(
     ".checkpoint-btn",
   ) as NodeListOf<HTMLElement>;
+  seedPanel = document.getElementById("seed-panel")!;
+  seedInput = document.getElementById("seed-input") as HTMLInputElement;
+  seedDailyBtn = document.getElementById("seed-daily-btn")!;
+  seedRandomBtn = document.getElementById("seed-random-btn")!;
+  replayBtn = document.getElementById("replay-btn") as HTMLButtonElement;
+  replayExportBtn = document.getElementById(
+    "replay-export-btn",
+  ) as HTMLButtonElement;
+  replayImportBtn = document.getElementById("replay-import-btn")!;
+  replayFileInput = document.getElementById(
+    "replay-file-input",
+  ) as HTMLInputElement;
+  replayMessage = document.getElementById("replay-message")!;
+  replayControls = document.getElementById("replay-controls")!;
+  replayPlayBtn = document.getElementById("replay-play-btn")!;
+  replayScrub = document.getElementById("replay-scrub") as HTMLInputElement;
+  replayTimeDisplay = document.getElementById("replay-time")!;
+  replayExitBtn = document.getElementById("replay-exit-btn")!;
+
+  // A shared link (?seed=...) picks the world
+  const urlSeed = new URLSearchParams(window.location.search).get("seed");
+  if (urlSeed && normalizeSeed(urlSeed)) {
+    worldSeed = normalizeSeed(urlSeed);
+  }
+  seedInput.value = worldSeed;
 
   // Set up Three.js
   const canvas = document.getElementById("game-canvas") as HTMLCanvasElement;
@@ -154,34 +598,158 @@ function init() {
   renderer.setSize(window.innerWidth, window.innerHeight);
   renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
 
-  // Lighting
-  const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
+  // Lighting; colours and the sun's position follow the time of day
+  ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
   scene.add(ambientLight);
 
-  const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-  directionalLight.position.set(50, 100, 50);
-  scene.add(directionalLight);
+  sunLight = new THREE.DirectionalLight(0xffffff, 0.8);
+  sunLight.position.set(50, 100, 50);
+  scene.add(sunLight);
+
+  scene.fog = new THREE.Fog(COLORS.sky, 250, 600);
+  createSky();
+  createRain();
 
   // Create game objects
   createGround();
   createSlingshot();
   createPlane();
-  createObstacles();
+  createGhostPlane();
+  createTrajectoryArc();
+  createWindMotes();
+  applyWorldTime(worldSeed);
+  applyWeather(getSeedWeather());
+  createSceneryPools();
+  createPickupAssets();
+  updateChunks(plane.position.z);
 
   // Set initial camera position
   updateCamera(true);
 
   // Event listeners
   window.addEventListener("resize", onWindowResize);
-  canvas.addEventListener("mousedown", onMouseDown);
-  window.addEventListener("mousemove", onMouseMove);
-  window.addEventListener("mouseup", onMouseUp);
+  screen.orientation?.addEventListener("change", onWindowResize);
+  canvas.addEventListener("pointerdown", onPointerDown);
+  canvas.addEventListener("pointermove", onPointerMove);
+  canvas.addEventListener("pointerup", onPointerUp);
+  canvas.addEventListener("pointercancel", onPointerCancel);
   window.addEventListener("keydown", onKeyDown);
   window.addEventListener("keyup", onKeyUp);
+  window.addEventListener("blur", () => {
+    heldKeys.clear();
+    autoPause();
+  });
+  document.addEventListener("visibilitychange", () => {
+    if (document.hidden) autoPause();
+  });
+
+  // Pause menu
+  pauseResumeBtn.addEventListener("click", togglePause);
+  pauseRetryBtn.addEventListener("click", retryRun);
+  pauseSettingsBtn.addEventListener("click", openSettingsMenu);
+  pauseQuitBtn.addEventListener("click", restartRun);
+
+  // Touch flight controls
+  touchStickBase.addEventListener("pointerdown", onStickDown);
+  touchStickBase.addEventListener("pointermove", onStickMove);
+  touchStickBase.addEventListener("pointerup", onStickUp);
+  touchStickBase.addEventListener("pointercancel", onStickUp);
+  touchStickBase.addEventListener("lostpointercapture", onStickUp);
+  touchBoostBtn.addEventListener("pointerdown", (e) => {
+    e.preventDefault();
+    touchBoostHeld = true;
+    activateBooster();
+  });
+  for (const type of ["pointerup", "pointercancel", "pointerleave"]) {
+    touchBoostBtn.addEventListener(type, () => (touchBoostHeld = false));
+  }
+  touchCameraBtn.addEventListener("pointerdown", (e) => {
+    e.preventDefault();
+    cycleCameraMode();
+  });
+  touchSlowBtn.addEventListener("pointerdown", (e) => {
+    e.preventDefault();
+    touchSlowHeld = true;
+  });
+  for (const type of ["pointerup", "pointercancel", "pointerleave"]) {
+    touchSlowBtn.addEventListener(type, () => (touchSlowHeld = false));
+  }
+  onWindowResize(); // Pick the touch layout for the starting orientation
   continueBtn.addEventListener("click", resetGame);
   upgradesBtn.addEventListener("click", openUpgradeMenu);
   closeUpgradesBtn.addEventListener("click", closeUpgradeMenu);
   playBtn.addEventListener("click", closeUpgradeMenu);
+  playBtn.addEventListener("click", closeSettingsMenu);
+  settingsBtn.addEventListener("click", openSettingsMenu);
+  closeSettingsBtn.addEventListener("click", closeSettingsMenu);
+  bindingsResetBtn.addEventListener("click", () => {
+    capturingBinding = null;
+    setBindings(createDefaultBindings());
+    showBindingsMessage("Controls reset to defaults");
+    renderBindings();
+  });
+
+  // Seed controls
+  seedInput.addEventListener("change", () => setWorldSeed(seedInput.value));
+  seedInput.addEventListener("keydown", (e) => e.stopPropagation());
+  seedDailyBtn.addEventListener("click", () => setWorldSeed(getDailySeed()));
+  seedRandomBtn.addEventListener("click", () => setWorldSeed(generateSeed()));
+  weatherSelect.addEventListener("change", () => {
+    weatherChoice = weatherSelect.value as WeatherKey | "seed";
+    applyWeather(getSeedWeather());
+  });
+  saveNoticeBtn.addEventListener("click", () =>
+    saveNotice.classList.add("hidden"),
+  );
+  saveExportFileBtn.addEventListener("click", exportSaveFile);
+  saveImportFileBtn.addEventListener("click", () => saveFileInput.click());
+  saveFileInput.addEventListener("change", () => {
+    const file = saveFileInput.files?.[0];
+    if (file) importSaveFile(file);
+    saveFileInput.value = "";
+  });
+  saveCopyCodeBtn.addEventListener("click", copySaveCode);
+  saveImportCodeBtn.addEventListener("click", () => {
+    try {
+      previewImport(decodeSaveCode(saveCodeInput.value, getCurrentSave()));
+    } catch (error) {
+      showSaveTransferMessage(
+        error instanceof Error ? error.message : "Could not read save code",
+      );
+    }
+  });
+  saveImportApplyBtn.addEventListener("click", applyImport);
+  loadoutSelect.addEventListener("change", () => {
+    const loadout = loadouts[Number(loadoutSelect.value)];
+    equipLevels(loadout ? loadout.upgrades : upgrades);
+  });
+  loadoutSaveBtn.addEventListener("click", saveLoadout);
+  loadoutNameInput.addEventListener("keydown", (e) => {
+    e.stopPropagation();
+    if (e.key === "Enter") saveLoadout();
+  });
+  respecBtn.addEventListener("click", respec);
+  saveImportCancelBtn.addEventListener("click", () => previewImport(null));
+
+  // Replay controls
+  replayBtn.addEventListener("click", () => {
+    if (lastReplay) startReplay(lastReplay);
+  });
+  replayExportBtn.addEventListener("click", exportReplay);
+  replayImportBtn.addEventListener("click", () => replayFileInput.click());
+  replayFileInput.addEventListener("change", () => {
+    const file = replayFileInput.files?.[0];
+    replayFileInput.value = "";
+    if (file) importReplay(file);
+  });
+  replayPlayBtn.addEventListener("click", toggleReplayPlayback);
+  replayScrub.addEventListener("input", () => {
+    replayPlaying = false;
+    replayTick = Number(replayScrub.value);
+    replayTime = replayTick * PHYSICS_STEP;
+    updateReplayControls();
+  });
+  replayExitBtn.addEventListener("click", exitReplay);
 
   // Checkpoint button handlers
   checkpointButtons.forEach((btn) => {
@@ -347,92 +915,653 @@ function createPlane() {
   scene.add(plane);
 }
 
-function createObstacles() {
-  // Clear existing obstacles
-  obstacles.forEach((obs) => scene.remove(obs.mesh));
-  obstacles.length = 0;
+// Translucent stand-in for the personal-best run
+function createGhostPlane() {
+  ghostPlane = new THREE.Group();
+
+  const material = new THREE.MeshLambertMaterial({
+    color: 0xffffff,
+    transparent: true,
+    opacity: 0.35,
+    depthWrite: false,
+  });
+
+  const fuselage = new THREE.Mesh(
+    new THREE.BoxGeometry(PLANE_WIDTH * 0.4, PLANE_HEIGHT, PLANE_LENGTH),
+    material,
+  );
+  ghostPlane.add(fuselage);
+
+  const wings = new THREE.Mesh(
+    new THREE.BoxGeometry(PLANE_WIDTH * 2.5, 0.05, 0.8),
+    material,
+  );
+  ghostPlane.add(wings);
+
+  ghostPlane.visible = false;
+  scene.add(ghostPlane);
+}
+
+function createTrajectoryArc() {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new THREE.BufferAttribute(new Float32Array(MAX_ARC_POINTS * 3), 3),
+  );
+  trajectoryArc = new THREE.Points(
+    geometry,
+    new THREE.PointsMaterial({
+      color: 0xffffff,
+      size: 0.25,
+      transparent: true,
+      opacity: 0.8,
+      depthWrite: false,
+    }),
+  );
+  trajectoryArc.frustumCulled = false; // Bounds change every update
+  trajectoryArc.visible = false;
+  scene.add(trajectoryArc);
+
+  landingMarker = new THREE.Mesh(
+    new THREE.RingGeometry(0.8, 1.2, 24),
+    new THREE.MeshBasicMaterial({ color: 0xf1c40f, side: THREE.DoubleSide }),
+  );
+  landingMarker.rotation.x = -Math.PI / 2;
+  landingMarker.visible = false;
+  scene.add(landingMarker);
+}
+
+// Sky dome: a vertical gradient from the horizon colour to the zenith colour,
+// kept centred on the camera
+function createSky() {
+  skyDome = new THREE.Mesh(
+    new THREE.SphereGeometry(5000, 32, 16),
+    new THREE.ShaderMaterial({
+      uniforms: {
+        topColor: { value: new THREE.Color() },
+        horizonColor: { value: new THREE.Color() },
+      },
+      vertexShader: `
+        varying float vHeight;
+        void main() {
+          vHeight = normalize(position).y;
+          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }
+      `,
+      fragmentShader: `
+        uniform vec3 topColor;
+        uniform vec3 horizonColor;
+        varying float vHeight;
+        void main() {
+          float t = pow(clamp(vHeight, 0.0, 1.0), 0.6);
+          gl_FragColor = vec4(mix(horizonColor, topColor, t), 1.0);
+        }
+      `,
+      side: THREE.BackSide,
+      depthWrite: false,
+    }),
+  );
+  skyDome.renderOrder = -1;
+  scene.add(skyDome);
+}
+
+function createRain() {
+  const positions = new Float32Array(RAIN_DROP_COUNT * 6);
+  for (let i = 0; i < RAIN_DROP_COUNT; i++) {
+    const x = (Math.random() - 0.5) * RAIN_BOX.x;
+    const y = Math.random() * RAIN_BOX.y;
+    const z = (Math.random() - 0.5) * RAIN_BOX.z;
+    positions.set([x, y, z, x, y + RAIN_STREAK, z], i * 6);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  rain = new THREE.LineSegments(
+    geometry,
+    new THREE.LineBasicMaterial({
+      color: 0xaabbcc,
+      transparent: true,
+      opacity: 0.5,
+    }),
+  );
+  rain.frustumCulled = false; // Recentred on the camera every frame
+  rain.visible = false;
+  scene.add(rain);
+}
+
+// Each world seed starts at its own time of day, mostly in daylight
+function applyWorldTime(seed: string) {
+  timeOfDay = 0.2 + nextRandom(hashSeed(`${seed}:time`))[0] * 0.6;
+}
+
+// Weather for the next run: the player's pick, or one drawn from the world
+// seed (clear skies twice as often as anything else)
+function getSeedWeather(): WeatherKey {
+  if (weatherChoice !== "seed") return weatherChoice;
+  return createRandom(`${worldSeed}:weather`).pick([
+    "clear",
+    "clear",
+    "overcast",
+    "rain",
+    "duskHaze",
+  ] as const);
+}
 
-  // Runway obstacles (sparse) - 0-100m
-  createRunwayObstacles();
+function applyWeather(key: WeatherKey) {
+  weather = key;
+  rain.visible = WEATHER[key].rain;
+  updateSky(0);
+}
 
-  // City obstacles - 100-1000m
-  createCityObstacles();
+function updateSky(deltaTime: number) {
+  timeOfDay = (timeOfDay + deltaTime / DAY_LENGTH) % 1;
+  const sky = getSkyState(timeOfDay, weather);
+
+  ambientLight.color.setHex(sky.ambientColor);
+  ambientLight.intensity = sky.ambientIntensity;
+  sunLight.color.setHex(sky.sunColor);
+  sunLight.intensity = sky.sunIntensity;
+  sunLight.position.set(
+    sky.sunDirection.x * 100,
+    sky.sunDirection.y * 100,
+    sky.sunDirection.z * 100,
+  );
 
-  // Desert obstacles - 1000-3000m
-  createDesertObstacles();
+  skyDome.material.uniforms.topColor.value.setHex(sky.skyTop);
+  skyDome.material.uniforms.horizonColor.value.setHex(sky.skyHorizon);
+  skyDome.position.copy(camera.position);
+  const fog = scene.fog as THREE.Fog;
+  fog.color.setHex(sky.skyHorizon);
+  fog.near = sky.fogNear;
+  fog.far = sky.fogFar;
+}
 
-  // Forest obstacles - 3000-6000m
-  createForestObstacles();
+// Drop streaks fall (and blow with the wind) through a box that follows the
+// camera
+function updateRain(deltaTime: number) {
+  if (!rain.visible) return;
+
+  const wind = gameState === "flying" && flight ? flight.wind : CALM;
+  const positions = rain.geometry.getAttribute(
+    "position",
+  ) as THREE.BufferAttribute;
+  const wrap = (value: number, center: number, size: number) =>
+    center + ((((value - center + size / 2) % size) + size) % size) - size / 2;
+  const center = camera.position;
+  for (let i = 0; i < RAIN_DROP_COUNT; i++) {
+    const x = wrap(
+      positions.getX(i * 2) + wind.x * deltaTime,
+      center.x,
+      RAIN_BOX.x,
+    );
+    const y = wrap(
+      positions.getY(i * 2) - RAIN_SPEED * deltaTime,
+      center.y,
+      RAIN_BOX.y,
+    );
+    const z = wrap(
+      positions.getZ(i * 2) + wind.z * deltaTime,
+      center.z,
+      RAIN_BOX.z,
+    );
+    positions.setXYZ(i * 2, x, y, z);
+    positions.setXYZ(i * 2 + 1, x, y + RAIN_STREAK, z);
+  }
+  positions.needsUpdate = true;
 }
 
-function createRunwayObstacles() {
-  // Airport workers
-  for (let i = 0; i < 5; i++) {
-    const x = (Math.random() - 0.5) * 16;
-    const z = 20 + Math.random() * 70;
-    createPerson(x, z, 0xffa500); // Orange vest workers
+// Drifting specks that ride the wind so gusts and thermals can be seen
+function createWindMotes() {
+  const positions = new Float32Array(WIND_MOTE_COUNT * 3);
+  for (let i = 0; i < WIND_MOTE_COUNT; i++) {
+    positions[i * 3] = (Math.random() - 0.5) * WIND_MOTE_BOX.x;
+    positions[i * 3 + 1] = Math.random() * WIND_MOTE_BOX.y;
+    positions[i * 3 + 2] = (Math.random() - 0.5) * WIND_MOTE_BOX.z;
   }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  windMotes = new THREE.Points(
+    geometry,
+    new THREE.PointsMaterial({
+      color: 0xffffff,
+      size: 0.15,
+      transparent: true,
+      opacity: 0.5,
+      depthWrite: false,
+    }),
+  );
+  windMotes.frustumCulled = false; // Recentred on the plane every frame
+  windMotes.visible = false;
+  scene.add(windMotes);
+}
 
-  // Airport vehicles
-  for (let i = 0; i < 3; i++) {
-    const x = (Math.random() > 0.5 ? 1 : -1) * (5 + Math.random() * 3);
-    const z = 30 + Math.random() * 60;
-    createVehicle(x, z, 0xffff00, 2, 1.5, 4); // Yellow airport vehicles
+// Blow the motes along with the wind the plane feels, wrapping them around
+// a box that follows the plane
+function updateWindMotes(deltaTime: number) {
+  const state =
+    gameState === "flying"
+      ? flight
+      : gameState === "replay"
+        ? replayFrames[replayTick]
+        : null;
+  windMotes.visible = !!state && state.windSeed !== null;
+  if (!state || !windMotes.visible) return;
+
+  const wrap = (value: number, center: number, size: number) =>
+    center + ((((value - center + size / 2) % size) + size) % size) - size / 2;
+  const positions = windMotes.geometry.getAttribute(
+    "position",
+  ) as THREE.BufferAttribute;
+  const { wind } = state;
+  for (let i = 0; i < WIND_MOTE_COUNT; i++) {
+    positions.setXYZ(
+      i,
+      wrap(
+        positions.getX(i) + wind.x * deltaTime,
+        plane.position.x,
+        WIND_MOTE_BOX.x,
+      ),
+      wrap(
+        positions.getY(i) + wind.y * deltaTime,
+        plane.position.y,
+        WIND_MOTE_BOX.y,
+      ),
+      wrap(
+        positions.getZ(i) + wind.z * deltaTime,
+        plane.position.z,
+        WIND_MOTE_BOX.z,
+      ),
+    );
   }
+  positions.needsUpdate = true;
 }
 
-function createCityObstacles() {
-  // Buildings along the sides
-  for (let z = 120; z < 1000; z += 40 + Math.random() * 30) {
-    const side = Math.random() > 0.5 ? 1 : -1;
-    const x = side * (15 + Math.random() * 20);
-    const height = 10 + Math.random() * 40;
-    const width = 8 + Math.random() * 12;
-    const depth = 8 + Math.random() * 12;
-    createBuilding(x, z, width, height, depth);
+// Build chunks around the focus point and dispose the ones left behind
+function updateChunks(focusZ: number) {
+  const first = Math.max(
+    0,
+    Math.floor((focusZ - CHUNK_KEEP_BEHIND) / CHUNK_LENGTH),
+  );
+  const last = Math.min(
+    CHUNK_COUNT - 1,
+    Math.floor((focusZ + CHUNK_LOAD_AHEAD) / CHUNK_LENGTH),
+  );
+
+  for (const index of [...loadedChunks.keys()]) {
+    if (index < first || index > last) unloadChunk(index);
+  }
+  for (let index = first; index <= last; index++) {
+    if (!loadedChunks.has(index)) loadChunk(index);
   }
+}
 
-  // Street level obstacles (cars, people)
-  for (let z = 110; z < 1000; z += 15 + Math.random() * 20) {
-    const x = (Math.random() - 0.5) * 20;
+function loadChunk(index: number) {
+  const chunkObstacles: Obstacle[] = [];
 
-    if (Math.random() > 0.5) {
-      createVehicle(x, z, getRandomCarColor(), 2, 1.2, 4);
-    } else {
-      createPerson(x, z, getRandomColor());
+  for (const spec of generateChunkLayout(worldSeed, index)) {
+    const obstacle = createObstacle(spec);
+    chunkObstacles.push(obstacle);
+    addObstacle(obstacle);
+  }
+
+  loadedChunks.set(index, chunkObstacles);
+  loadedPickups.set(
+    index,
+    generateChunkPickups(worldSeed, index).map(createPickup),
+  );
+}
+
+function unloadChunk(index: number) {
+  const chunkObstacles = loadedChunks.get(index);
+  if (!chunkObstacles) return;
+
+  for (const obstacle of chunkObstacles) {
+    if (obstacle.mesh) {
+      scene.remove(obstacle.mesh);
+      disposeObject(obstacle.mesh);
+    }
+    obstacle.instances.forEach(({ pool, index }) => pool.remove(index));
+    removeObstacle(obstacle);
+  }
+  loadedChunks.delete(index);
+
+  for (const { mesh } of loadedPickups.get(index) ?? []) {
+    scene.remove(mesh);
+    if (mesh.material !== coinMaterial) {
+      (mesh.material as THREE.Material).dispose();
     }
   }
+  loadedPickups.delete(index);
+}
+
+function addObstacle(obstacle: Obstacle) {
+  if (obstacle.dynamic) {
+    dynamicObstacles.push(obstacle);
+  } else {
+    staticObstacles.insert(obstacle, obstacle.boundingBox);
+  }
+}
+
+function removeObstacle(obstacle: Obstacle) {
+  if (obstacle.dynamic) {
+    const index = dynamicObstacles.indexOf(obstacle);
+    if (index >= 0) dynamicObstacles.splice(index, 1);
+  } else {
+    staticObstacles.remove(obstacle);
+  }
+}
+
+function clearChunks() {
+  for (const index of [...loadedChunks.keys()]) {
+    unloadChunk(index);
+  }
+}
+
+// Coins share one geometry and material; each ring gets its own material so
+// it can change colour once flown through or missed
+function createPickupAssets() {
+  coinGeometry = new THREE.CylinderGeometry(COIN_RADIUS, COIN_RADIUS, 0.12, 16);
+  coinGeometry.rotateX(Math.PI / 2); // Face down the course
+  coinMaterial = new THREE.MeshLambertMaterial({
+    color: 0xf1c40f,
+    emissive: 0x7a5c00,
+  });
+  ringGeometry = new THREE.TorusGeometry(RING_RADIUS, 0.2, 8, 32);
+}
+
+function createPickup(spec: PickupSpec): Pickup {
+  const mesh =
+    spec.type === "coin"
+      ? new THREE.Mesh(coinGeometry, coinMaterial)
+      : new THREE.Mesh(
+          ringGeometry,
+          new THREE.MeshBasicMaterial({ transparent: true }),
+        );
+  mesh.position.set(spec.x, spec.y, spec.z);
+  const pickup = { spec, mesh };
+  showPickupResult(pickup);
+  scene.add(mesh);
+  return pickup;
+}
+
+function showPickupResult({ spec, mesh }: Pickup) {
+  const result = pickupResults.get(spec.id);
+  if (spec.type === "coin") {
+    mesh.visible = result !== "taken";
+    return;
+  }
+  const material = mesh.material as THREE.MeshBasicMaterial;
+  material.color.set(
+    result === "through" || result === "missed"
+      ? RING_COLORS[result]
+      : RING_COLORS.waiting,
+  );
+  material.opacity = result ? 0.35 : 0.9;
+}
+
+// Every coin and ring is back for a new run
+function resetPickups() {
+  pickupResults.clear();
+  pickupTally = createPickupTally();
+  for (const pickups of loadedPickups.values()) {
+    pickups.forEach(showPickupResult);
+  }
+  updatePickupDisplay();
 }
 
-function createDesertObstacles() {
-  // Cacti
-  for (let z = 1050; z < 3000; z += 20 + Math.random() * 40) {
-    const x = (Math.random() - 0.5) * 80;
-    createCactus(x, z);
+// Test this tick's motion against the pickups within the z range it swept.
+// Clusters and chains can run on past the chunk that owns them, so every
+// loaded chunk is searched.
+function checkPickups() {
+  if (gameState !== "flying" || !previousFlight || !flight) return;
+
+  const start = previousFlight.position;
+  const end = flight.position;
+  const reach = PLANE_LENGTH / 2;
+  const minZ = Math.min(start.z, end.z) - COIN_RADIUS - reach;
+  const maxZ = Math.max(start.z, end.z) + COIN_RADIUS + reach;
+  for (const pickups of loadedPickups.values()) {
+    for (const pickup of pickups) {
+      const { spec } = pickup;
+      if (spec.z < minZ || spec.z > maxZ || pickupResults.has(spec.id)) {
+        continue;
+      }
+
+      if (spec.type === "coin") {
+        if (!touchesCoin(start, end, spec, reach)) continue;
+        collectCoin(pickupTally);
+        pickupResults.set(spec.id, "taken");
+      } else {
+        const result = crossRing(start, end, spec);
+        if (!result) continue;
+        if (result === "through") {
+          passRing(pickupTally, spec);
+        } else {
+          missRing(pickupTally, spec);
+        }
+        pickupResults.set(spec.id, result);
+      }
+      showPickupResult(pickup);
+      updatePickupDisplay();
+    }
   }
+}
 
-  // Rock formations
-  for (let z = 1100; z < 3000; z += 100 + Math.random() * 100) {
-    const x = (Math.random() - 0.5) * 60;
-    createRock(x, z);
+function updatePickupDisplay() {
+  pickupBonus.textContent = pickupTally.bonus.toString();
+  ringStreak.textContent = `Rings x${pickupTally.streak}`;
+  ringStreak.classList.toggle("hidden", pickupTally.streak < 2);
+}
+
+function spinCoins(deltaTime: number) {
+  for (const pickups of loadedPickups.values()) {
+    for (const { spec, mesh } of pickups) {
+      if (spec.type === "coin") mesh.rotation.y += COIN_SPIN_SPEED * deltaTime;
+    }
   }
 }
 
-function createForestObstacles() {
-  // Trees - denser than desert
-  for (let z = 3050; z < 6000; z += 10 + Math.random() * 20) {
-    const x = (Math.random() - 0.5) * 100;
-    createTree(x, z);
+// Free GPU resources for a mesh tree (shared ones tolerate double dispose)
+function disposeObject(object: THREE.Object3D) {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material)
+        ? child.material
+        : [child.material];
+      materials.forEach((material) => material.dispose());
+    }
+  });
+}
+
+function createObstacle(spec: ObstacleSpec): Obstacle {
+  switch (spec.type) {
+    case "person":
+      return createMeshObstacle(
+        spec.type,
+        createPerson(spec.x, spec.z, spec.shirtColor),
+      );
+    case "vehicle":
+      return createMeshObstacle(
+        spec.type,
+        createVehicle(
+          spec.x,
+          spec.z,
+          spec.color,
+          spec.width,
+          spec.height,
+          spec.length,
+        ),
+      );
+    case "elk":
+      return createMeshObstacle(
+        spec.type,
+        createElk(spec.x, spec.z, spec.heading),
+      );
+    default:
+      return createSceneryObstacle(spec);
   }
+}
+
+function createMeshObstacle(
+  type: ObstacleType,
+  mesh: THREE.Object3D,
+): Obstacle {
+  scene.add(mesh);
+  return {
+    mesh,
+    instances: [],
+    boundingBox: new THREE.Box3().setFromObject(mesh),
+    type,
+    dynamic: false,
+  };
+}
+
+function createSceneryPools() {
+  const pool = (
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material = new THREE.MeshLambertMaterial(),
+  ) => createInstancePool(scene, geometry, material);
+
+  // Unit-height parts are scaled per instance
+  sceneryPools = {
+    treeTrunk: pool(new THREE.CylinderGeometry(0.3, 0.5, 1, 8)),
+    treeFoliage: pool(new THREE.ConeGeometry(2, 1, 8)),
+    cactusStem: pool(new THREE.CylinderGeometry(0.3, 0.4, 3, 8)),
+    cactusArm: pool(new THREE.CylinderGeometry(0.2, 0.25, 1.5, 8)),
+    rock: pool(new THREE.DodecahedronGeometry(1, 0)),
+    building: pool(new THREE.BoxGeometry(1, 1, 1)),
+    window: pool(
+      new THREE.PlaneGeometry(1, 1.5),
+      new THREE.MeshBasicMaterial({ color: 0xffffff }),
+    ),
+  };
+}
+
+// Place one obstacle's parts into the scenery pools; bounds cover every part
+function createSceneryObstacle(
+  spec: Extract<
+    ObstacleSpec,
+    { type: "tree" | "cactus" | "rock" | "building" }
+  >,
+): Obstacle {
+  const obstacle: Obstacle = {
+    mesh: null,
+    instances: [],
+    boundingBox: new THREE.Box3(),
+    type: spec.type,
+    dynamic: false,
+  };
+  const partBounds = new THREE.Box3();
+  const matrix = new THREE.Matrix4();
+  const color = new THREE.Color();
+
+  const addPart = (
+    part: SceneryPart,
+    hex: number,
+    position: THREE.Vector3,
+    rotation = new THREE.Euler(),
+    scale = new THREE.Vector3(1, 1, 1),
+  ) => {
+    const pool = sceneryPools[part];
+    matrix.compose(
+      position,
+      new THREE.Quaternion().setFromEuler(rotation),
+      scale,
+    );
+    obstacle.instances.push({
+      pool,
+      index: pool.add(matrix, color.setHex(hex)),
+    });
+    obstacle.boundingBox.union(pool.getBounds(matrix, partBounds));
+  };
 
-  // Occasional elk
-  for (let z = 3200; z < 6000; z += 200 + Math.random() * 300) {
-    const x = (Math.random() - 0.5) * 40;
-    createElk(x, z);
+  const { x, z } = spec;
+  switch (spec.type) {
+    case "tree": {
+      const { trunkHeight, foliageHeight } = spec;
+      addPart(
+        "treeTrunk",
+        0x4a3728,
+        new THREE.Vector3(x, trunkHeight / 2, z),
+        undefined,
+        new THREE.Vector3(1, trunkHeight, 1),
+      );
+      // Foliage (cone shape for pine trees)
+      addPart(
+        "treeFoliage",
+        0x228b22,
+        new THREE.Vector3(x, trunkHeight + foliageHeight / 2 - 1, z),
+        undefined,
+        new THREE.Vector3(1, foliageHeight, 1),
+      );
+      break;
+    }
+    case "cactus": {
+      addPart("cactusStem", 0x2d5a27, new THREE.Vector3(x, 1.5, z));
+      if (spec.arms > 0) {
+        addPart(
+          "cactusArm",
+          0x2d5a27,
+          new THREE.Vector3(x - 0.6, 2, z),
+          new THREE.Euler(0, 0, Math.PI / 4),
+        );
+      }
+      if (spec.arms > 1) {
+        addPart(
+          "cactusArm",
+          0x2d5a27,
+          new THREE.Vector3(x + 0.6, 1.5, z),
+          new THREE.Euler(0, 0, -Math.PI / 4),
+        );
+      }
+      break;
+    }
+    case "rock": {
+      const { size, rotation } = spec;
+      addPart(
+        "rock",
+        0x8b7355,
+        new THREE.Vector3(x, size * 0.6, z),
+        new THREE.Euler(rotation.x, rotation.y, rotation.z),
+        new THREE.Vector3(size, size, size),
+      );
+      break;
+    }
+    case "building": {
+      const { width, height, depth } = spec;
+      addPart(
+        "building",
+        spec.color,
+        new THREE.Vector3(x, height / 2, z),
+        undefined,
+        new THREE.Vector3(width, height, depth),
+      );
+
+      // Windows on both long sides
+      for (let wy = 3; wy < height - 2; wy += 4) {
+        for (let wz = -depth / 2 + 2; wz < depth / 2 - 1; wz += 3) {
+          addPart(
+            "window",
+            0x87ceeb,
+            new THREE.Vector3(x - width / 2 - 0.01, wy, z + wz),
+            new THREE.Euler(0, Math.PI / 2, 0),
+          );
+          addPart(
+            "window",
+            0x87ceeb,
+            new THREE.Vector3(x + width / 2 + 0.01, wy, z + wz),
+            new THREE.Euler(0, -Math.PI / 2, 0),
+          );
+        }
+      }
+      break;
+    }
   }
+
+  return obstacle;
 }
 
-function createPerson(x: number, z: number, shirtColor: number) {
+function createPerson(x: number, z: number, shirtColor: number): THREE.Group {
   const group = new THREE.Group();
 
   // Body
@@ -460,11 +1589,7 @@ function createPerson(x: number, z: number, shirtColor: number) {
   group.add(rightLeg);
 
   group.position.set(x, 0, z);
-  scene.add(group);
-
-  // Create bounding box
-  const box = new THREE.Box3().setFromObject(group);
-  obstacles.push({ mesh: group, boundingBox: box, type: "person" });
+  return group;
 }
 
 function createVehicle(
@@ -474,7 +1599,7 @@ function createVehicle(
   width: number,
   height: number,
   length: number,
-) {
+): THREE.Group {
   const group = new THREE.Group();
 
   // Car body
@@ -503,124 +1628,10 @@ function createVehicle(
   });
 
   group.position.set(x, 0, z);
-  scene.add(group);
-
-  const box = new THREE.Box3().setFromObject(group);
-  obstacles.push({ mesh: group, boundingBox: box, type: "vehicle" });
-}
-
-function createBuilding(
-  x: number,
-  z: number,
-  width: number,
-  height: number,
-  depth: number,
-) {
-  const geometry = new THREE.BoxGeometry(width, height, depth);
-  const material = new THREE.MeshLambertMaterial({
-    color: getRandomBuildingColor(),
-  });
-  const building = new THREE.Mesh(geometry, material);
-  building.position.set(x, height / 2, z);
-  scene.add(building);
-
-  // Add windows
-  const windowGeometry = new THREE.PlaneGeometry(1, 1.5);
-  const windowMaterial = new THREE.MeshBasicMaterial({ color: 0x87ceeb });
-
-  for (let wy = 3; wy < height - 2; wy += 4) {
-    for (let wz = -depth / 2 + 2; wz < depth / 2 - 1; wz += 3) {
-      // Front and back windows
-      const windowFront = new THREE.Mesh(windowGeometry, windowMaterial);
-      windowFront.position.set(x - width / 2 - 0.01, wy, z + wz);
-      windowFront.rotation.y = Math.PI / 2;
-      scene.add(windowFront);
-
-      const windowBack = new THREE.Mesh(windowGeometry, windowMaterial);
-      windowBack.position.set(x + width / 2 + 0.01, wy, z + wz);
-      windowBack.rotation.y = -Math.PI / 2;
-      scene.add(windowBack);
-    }
-  }
-
-  const box = new THREE.Box3().setFromObject(building);
-  obstacles.push({ mesh: building, boundingBox: box, type: "building" });
-}
-
-function createCactus(x: number, z: number) {
-  const group = new THREE.Group();
-
-  // Main stem
-  const stemGeometry = new THREE.CylinderGeometry(0.3, 0.4, 3, 8);
-  const cactusMaterial = new THREE.MeshLambertMaterial({ color: 0x2d5a27 });
-  const stem = new THREE.Mesh(stemGeometry, cactusMaterial);
-  stem.position.y = 1.5;
-  group.add(stem);
-
-  // Arms
-  if (Math.random() > 0.3) {
-    const armGeometry = new THREE.CylinderGeometry(0.2, 0.25, 1.5, 8);
-
-    const leftArm = new THREE.Mesh(armGeometry, cactusMaterial);
-    leftArm.position.set(-0.6, 2, 0);
-    leftArm.rotation.z = Math.PI / 4;
-    group.add(leftArm);
-
-    if (Math.random() > 0.5) {
-      const rightArm = new THREE.Mesh(armGeometry, cactusMaterial);
-      rightArm.position.set(0.6, 1.5, 0);
-      rightArm.rotation.z = -Math.PI / 4;
-      group.add(rightArm);
-    }
-  }
-
-  group.position.set(x, 0, z);
-  scene.add(group);
-
-  const box = new THREE.Box3().setFromObject(group);
-  obstacles.push({ mesh: group, boundingBox: box, type: "cactus" });
-}
-
-function createRock(x: number, z: number) {
-  const size = 2 + Math.random() * 4;
-  const geometry = new THREE.DodecahedronGeometry(size, 0);
-  const material = new THREE.MeshLambertMaterial({ color: 0x8b7355 });
-  const rock = new THREE.Mesh(geometry, material);
-  rock.position.set(x, size * 0.6, z);
-  rock.rotation.set(Math.random(), Math.random(), Math.random());
-  scene.add(rock);
-
-  const box = new THREE.Box3().setFromObject(rock);
-  obstacles.push({ mesh: rock, boundingBox: box, type: "rock" });
-}
-
-function createTree(x: number, z: number) {
-  const group = new THREE.Group();
-
-  // Trunk
-  const trunkHeight = 3 + Math.random() * 2;
-  const trunkGeometry = new THREE.CylinderGeometry(0.3, 0.5, trunkHeight, 8);
-  const trunkMaterial = new THREE.MeshLambertMaterial({ color: 0x4a3728 });
-  const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
-  trunk.position.y = trunkHeight / 2;
-  group.add(trunk);
-
-  // Foliage (cone shape for pine trees)
-  const foliageHeight = 4 + Math.random() * 3;
-  const foliageGeometry = new THREE.ConeGeometry(2, foliageHeight, 8);
-  const foliageMaterial = new THREE.MeshLambertMaterial({ color: 0x228b22 });
-  const foliage = new THREE.Mesh(foliageGeometry, foliageMaterial);
-  foliage.position.y = trunkHeight + foliageHeight / 2 - 1;
-  group.add(foliage);
-
-  group.position.set(x, 0, z);
-  scene.add(group);
-
-  const box = new THREE.Box3().setFromObject(group);
-  obstacles.push({ mesh: group, boundingBox: box, type: "tree" });
+  return group;
 }
 
-function createElk(x: number, z: number) {
+function createElk(x: number, z: number, heading: number): THREE.Group {
   const group = new THREE.Group();
 
   // Body
@@ -668,52 +1679,190 @@ function createElk(x: number, z: number) {
   });
 
   group.position.set(x, 0, z);
-  group.rotation.y = Math.random() * Math.PI * 2;
-  scene.add(group);
+  group.rotation.y = heading;
+  return group;
+}
+
+function setWorldSeed(seed: string) {
+  const normalized = normalizeSeed(seed);
+  if (gameState !== "ready" || !normalized) {
+    seedInput.value = worldSeed;
+    return;
+  }
 
-  const box = new THREE.Box3().setFromObject(group);
-  obstacles.push({ mesh: group, boundingBox: box, type: "elk" });
+  applyWorldSeed(normalized);
+  applyWorldTime(normalized);
 }
 
-function getRandomCarColor(): number {
-  const colors = [0xff0000, 0x0000ff, 0x00ff00, 0xffffff, 0x000000, 0xffff00];
-  return colors[Math.floor(Math.random() * colors.length)];
+function applyWorldSeed(seed: string) {
+  worldSeed = seed;
+  seedInput.value = worldSeed;
+  if (weatherChoice === "seed") applyWeather(getSeedWeather());
+  clearRagdolls();
+  clearChunks();
+  updateChunks(plane.position.z);
+  worldDisturbed = false;
+
+  // Keep the address bar shareable
+  const url = new URL(window.location.href);
+  url.searchParams.set("seed", worldSeed);
+  window.history.replaceState(null, "", url);
 }
 
-function getRandomBuildingColor(): number {
-  const colors = [0x808080, 0xa0a0a0, 0x606060, 0xb0b0b0, 0x909090];
-  return colors[Math.floor(Math.random() * colors.length)];
+// Sweep the plane's box from last tick's pose to this one and find the
+// earliest obstacle it touches, so fast planes can't skip thin obstacles
+function checkObstacleCollisions() {
+  if (gameState !== "flying" || !flight || !previousFlight) return;
+
+  const start = new THREE.Vector3().copy(previousFlight.position);
+  const end = new THREE.Vector3().copy(flight.position);
+  const motion = end.clone().sub(start);
+
+  const candidates = staticObstacles.query(
+    getSweptBounds(start, end, planeHalfExtents),
+  );
+  for (const obstacle of dynamicObstacles) {
+    if (obstacle.mesh) obstacle.boundingBox.setFromObject(obstacle.mesh);
+    candidates.push(obstacle);
+  }
+
+  let firstHit: SweepHit | null = null;
+  let firstObstacle: Obstacle | null = null;
+  for (const obstacle of candidates) {
+    if (resolvedObstacles.has(obstacle)) continue;
+    const hit = sweepAabb(start, end, planeHalfExtents, obstacle.boundingBox);
+    if (hit && (!firstHit || hit.time < firstHit.time)) {
+      firstHit = hit;
+      firstObstacle = obstacle;
+    }
+  }
+
+  if (firstHit && firstObstacle) {
+    // Stop the plane at the point of contact rather than past it, so the
+    // awarded distance, replay and ghost all end there too
+    plane.position.sub(motion.multiplyScalar(1 - firstHit.time));
+    const { x, y, z } = plane.position;
+    flight = {
+      ...flight,
+      position: { x, y, z },
+      distance: Math.max(0, z - startingZ),
+    };
+    distance = flight.distance;
+    handleCollision(firstObstacle, firstHit);
+  }
 }
 
-function getRandomColor(): number {
-  const colors = [0xff6b6b, 0x4ecdc4, 0xffe66d, 0x95e1d3, 0xf38181];
-  return colors[Math.floor(Math.random() * colors.length)];
+// Apply the obstacle type's response; only some contacts end the run
+function handleCollision(obstacle: Obstacle, hit: SweepHit) {
+  if (!flight) return;
+
+  const response = COLLISION_RESPONSES[obstacle.type];
+  const impactVelocity = flight.velocity;
+  const result = resolveCollision(response, impactVelocity, hit.normal);
+  if (result.crashed) {
+    console.log(`Crashed into ${obstacle.type}!`);
+    if (recorder) recordImpact(recorder, flight);
+    crash(obstacle.type, hit.normal);
+    return;
+  }
+
+  console.log(`Hit ${obstacle.type} (${response.kind}), still flying`);
+  resolvedObstacles.add(obstacle);
+
+  // Nudge off the surface so the next tick doesn't start inside it
+  plane.position.addScaledVector(new THREE.Vector3().copy(hit.normal), 0.05);
+  const { x, y, z } = plane.position;
+  flight = {
+    ...flight,
+    position: { x, y, z },
+    velocity: result.velocity,
+    distance: Math.max(0, z - startingZ),
+  };
+  distance = flight.distance;
+  if (recorder) recordImpact(recorder, flight);
+
+  // People and animals get bowled over
+  if (response.kind === "knockback") {
+    spawnRagdoll(obstacle, impactVelocity);
+  }
 }
 
-function checkObstacleCollisions() {
-  if (gameState !== "flying") return;
+// Break an obstacle's mesh group into ragdoll parts carrying the plane's
+// momentum. The obstacle stops colliding; its chunk keeps the empty group.
+function spawnRagdoll(obstacle: Obstacle, velocity: Vec3) {
+  if (!obstacle.mesh) return;
+
+  obstacle.mesh.updateMatrixWorld(true);
+  const meshes = [...obstacle.mesh.children];
+  const parts = meshes.map(detachPiece);
+
+  const launch = {
+    x: velocity.x * 0.6,
+    y: velocity.y * 0.6 + 4,
+    z: velocity.z * 0.6,
+  };
+  ragdolls.push({
+    body: createRagdoll(parts, launch, PHYSICS_STEP),
+    meshes,
+  });
+  removeObstacle(obstacle);
+  worldDisturbed = true;
+}
 
-  // Create plane bounding box
-  const planeBox = new THREE.Box3().setFromObject(plane);
+// Move a mesh to the scene root, keeping its world transform, and describe it
+// for the ragdoll integrator
+function detachPiece(mesh: THREE.Object3D) {
+  scene.attach(mesh);
+  const size = new THREE.Vector3();
+  const geometry = (mesh as THREE.Mesh).geometry;
+  geometry.computeBoundingBox();
+  geometry.boundingBox!.getSize(size);
+  const { x, y, z } = mesh.rotation;
+  return {
+    position: { x: mesh.position.x, y: mesh.position.y, z: mesh.position.z },
+    rotation: { x, y, z },
+    // Lying down, a part rests on its thinnest side
+    radius: Math.min(size.x, size.y, size.z) / 2,
+  };
+}
 
-  for (const obstacle of obstacles) {
-    // Only check obstacles that are near the plane
-    if (Math.abs(obstacle.mesh.position.z - plane.position.z) > 50) continue;
+// Ragdolls step on their own fixed-rate loop so they keep tumbling after the
+// run has ended
+function updateRagdolls(deltaTime: number) {
+  if (ragdolls.length === 0) {
+    ragdollAccumulator = 0;
+    return;
+  }
 
-    // Update obstacle bounding box
-    obstacle.boundingBox.setFromObject(obstacle.mesh);
+  ragdollAccumulator += deltaTime;
+  while (ragdollAccumulator >= PHYSICS_STEP) {
+    ragdolls.forEach(({ body }) => stepRagdoll(body, PHYSICS_STEP));
+    ragdollAccumulator -= PHYSICS_STEP;
+  }
 
-    if (planeBox.intersectsBox(obstacle.boundingBox)) {
-      // Collision detected!
-      handleCollision(obstacle);
-      return;
+  for (let i = ragdolls.length - 1; i >= 0; i--) {
+    const { body, meshes } = ragdolls[i];
+    if (isRagdollExpired(body)) {
+      removeRagdoll(i);
+      continue;
     }
+    body.parts.forEach(({ position, rotation }, index) => {
+      meshes[index].position.set(position.x, position.y, position.z);
+      meshes[index].rotation.set(rotation.x, rotation.y, rotation.z);
+    });
+  }
+}
+
+function removeRagdoll(index: number) {
+  for (const mesh of ragdolls[index].meshes) {
+    scene.remove(mesh);
+    disposeObject(mesh);
   }
+  ragdolls.splice(index, 1);
 }
 
-function handleCollision(obstacle: Obstacle) {
-  console.log(`Crashed into ${obstacle.type}!`);
-  crash();
+function clearRagdolls() {
+  while (ragdolls.length > 0) removeRagdoll(ragdolls.length - 1);
 }
 
 function updateRubberBands() {
@@ -742,23 +1891,26 @@ function updateRubberBands() {
   rubberBandRight.geometry.setFromPoints(rightPoints);
 }
 
-function onMouseDown(event: MouseEvent) {
-  if (gameState !== "ready") return;
+function onPointerDown(event: PointerEvent) {
+  if (event.pointerType !== "mouse") touchControlsEnabled = true;
+  // Only the first finger pulls; extra touches are ignored until it lifts
+  if (gameState !== "ready" || pullPointerId !== null) return;
 
-  console.log("[onMouseDown] Starting pull", {
+  console.log("[onPointerDown] Starting pull", {
     gameState,
     planePosition: plane.position.clone(),
     startingZ,
   });
 
-  isDragging = true;
+  pullPointerId = event.pointerId;
+  (event.target as HTMLElement).setPointerCapture(event.pointerId);
   gameState = "pulling";
   pullStart.set(event.clientX, event.clientY);
   pullCurrent.copy(pullStart);
 }
 
-function onMouseMove(event: MouseEvent) {
-  if (!isDragging || gameState !== "pulling") return;
+function onPointerMove(event: PointerEvent) {
+  if (event.pointerId !== pullPointerId || gameState !== "pulling") return;
 
   pullCurrent.set(event.clientX, event.clientY);
 
@@ -768,19 +1920,27 @@ function onMouseMove(event: MouseEvent) {
 
   // Pull distance is total drag distance (mostly vertical matters)
   const totalDrag = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
-  pullDistance = Math.min(MAX_PULL_DISTANCE, Math.max(0, totalDrag / 20));
 
   // Launch angle based on drag direction
   // Dragging straight down = medium angle
   // Dragging down-left = higher angle (more vertical)
   // Dragging down-right = lower angle (more horizontal)
+  let angle = launchAngle;
   if (totalDrag > 10) {
     // Angle from 15 to 60 degrees based on horizontal component
     // Dragging left (negative deltaX) = higher angle
     const angleInfluence = Math.max(-1, Math.min(1, -deltaX / 200));
-    launchAngle = 0.5 + angleInfluence * 0.4; // 0.1 to 0.9
+    angle = 0.5 + angleInfluence * 0.4; // 0.1 to 0.9
   }
 
+  setPull(totalDrag / 20, angle);
+}
+
+// Pose the plane in the slingshot for a pull; shared by mouse and gamepad
+function setPull(distance: number, angle: number) {
+  pullDistance = Math.min(MAX_PULL_DISTANCE, Math.max(0, distance));
+  launchAngle = angle;
+
   // Move plane back based on pull - more dramatic visual
   const startZ = getCheckpointStartPosition();
   plane.position.z = startZ - pullDistance * 1.2;
@@ -798,99 +1958,337 @@ function onMouseMove(event: MouseEvent) {
     powerPercent > 0
       ? `Power: ${powerPercent}% | Angle: ${angleDegrees}° - Release to launch!`
       : "Drag down to pull back (left/right adjusts angle)";
-}
-
-function onMouseUp() {
-  if (!isDragging || gameState !== "pulling") return;
-
-  console.log("[onMouseUp] Release detected", {
-    pullDistance,
-    MIN_PULL_DISTANCE,
-    planePosition: plane.position.clone(),
-    launchAngle,
-  });
 
-  isDragging = false;
+  updateTrajectory();
+}
 
+// Fly the current pull hands-off and draw where it would go. A pull too weak
+// to launch shows nothing.
+function updateTrajectory() {
   if (pullDistance < MIN_PULL_DISTANCE) {
-    // Not enough pull, reset
-    console.log("[onMouseUp] Pull too short, resetting");
-    resetPlanePosition();
-    gameState = "ready";
+    hideTrajectory();
     return;
   }
 
-  // Launch!
-  console.log("[onMouseUp] Calling launch()");
+  const states = predictTrajectory(
+    getLaunchParams(),
+    getUpgradeModifiers(equipped),
+  );
+  const positions = trajectoryArc.geometry.getAttribute(
+    "position",
+  ) as THREE.BufferAttribute;
+  let count = 0;
+  for (
+    let i = 0;
+    i < states.length && count < MAX_ARC_POINTS;
+    i += ARC_SAMPLE_TICKS
+  ) {
+    const { x, y, z } = states[i].position;
+    positions.setXYZ(count++, x, y, z);
+  }
+  positions.needsUpdate = true;
+  trajectoryArc.geometry.setDrawRange(0, count);
+  trajectoryArc.visible = true;
+
+  const landing = states[states.length - 1];
+  landingMarker.position.set(landing.position.x, 0.05, landing.position.z);
+  landingMarker.visible = true;
+
+  // Label the landing spot with its distance, pinned over the marker
+  const screen = landingMarker.position.clone().project(camera);
+  landingLabel.textContent = `${Math.floor(landing.distance)}m`;
+  landingLabel.style.left = `${((screen.x + 1) / 2) * window.innerWidth}px`;
+  landingLabel.style.top = `${((1 - screen.y) / 2) * window.innerHeight}px`;
+  landingLabel.classList.toggle("hidden", screen.z > 1);
+}
+
+function hideTrajectory() {
+  trajectoryArc.visible = false;
+  landingMarker.visible = false;
+  landingLabel.classList.add("hidden");
+}
+
+function onPointerUp(event: PointerEvent) {
+  if (event.pointerId !== pullPointerId) return;
+  pullPointerId = null;
+  if (gameState === "pulling") releasePull();
+}
+
+// The browser took the pointer away (e.g. a system gesture), so drop the
+// pull instead of launching from wherever it was
+function onPointerCancel(event: PointerEvent) {
+  if (event.pointerId !== pullPointerId) return;
+  pullPointerId = null;
+  if (gameState !== "pulling") return;
+  resetPlanePosition();
+  gameState = "ready";
+}
+
+function onStickDown(event: PointerEvent) {
+  event.preventDefault();
+  touchControlsEnabled = true;
+  if (!pressStick(touchStick, event.pointerId, event.clientX, event.clientY)) {
+    return;
+  }
+  touchStickBase.setPointerCapture(event.pointerId);
+}
+
+function onStickMove(event: PointerEvent) {
+  const radius = touchStickBase.clientWidth / 2;
+  moveStick(touchStick, event.pointerId, event.clientX, event.clientY, radius);
+  updateStickKnob();
+}
+
+function onStickUp(event: PointerEvent) {
+  releaseStick(touchStick, event.pointerId);
+  updateStickKnob();
+}
+
+function updateStickKnob() {
+  const radius = touchStickBase.clientWidth / 2;
+  const { x, y } = touchStick.value;
+  touchStickKnob.style.transform = `translate(${x * radius}px, ${y * radius}px)`;
+}
+
+// Touch controls only matter in flight, and not behind the pause menu; the
+// boost button follows the HUD booster counter or fuel gauge
+function updateTouchControls() {
+  const visible = touchControlsEnabled && gameState === "flying" && !paused;
+  touchControls.classList.toggle("hidden", !visible);
+  if (!visible) return;
+  touchBoostBtn.classList.toggle("hidden", flightModifiers.uses <= 0);
+  touchBoostBtn.classList.toggle(
+    "empty",
+    boosterUsesRemaining <= 0 && !(flight && flight.fuel > 0),
+  );
+}
+
+// Launch from the current pull, or drop back if it was too short
+function releasePull() {
+  console.log("[releasePull] Release detected", {
+    pullDistance,
+    MIN_PULL_DISTANCE,
+    planePosition: plane.position.clone(),
+    launchAngle,
+  });
+
+  if (pullDistance < MIN_PULL_DISTANCE) {
+    // Not enough pull, reset
+    console.log("[releasePull] Pull too short, resetting");
+    resetPlanePosition();
+    gameState = "ready";
+    return;
+  }
+
+  // Launch!
+  console.log("[releasePull] Calling launch()");
   launch();
 }
 
 function onKeyDown(event: KeyboardEvent) {
-  switch (event.code) {
-    case "ArrowLeft":
-    case "KeyA":
-      keys.left = true;
-      break;
-    case "ArrowRight":
-    case "KeyD":
-      keys.right = true;
+  if (capturingBinding) {
+    event.preventDefault();
+    captureBinding(event.code);
+    return;
+  }
+  // Typing in a text field shouldn't steer or restart
+  if (event.target instanceof HTMLInputElement) return;
+
+  heldKeys.add(event.code);
+  if (event.repeat) return;
+
+  switch (getActionForKey(bindings, event.code)) {
+    case "boost":
+      activateBooster();
       break;
-    case "ArrowUp":
-    case "KeyW":
-      keys.up = true;
+    case "pause":
+      togglePause();
       break;
-    case "ArrowDown":
-    case "KeyS":
-      keys.down = true;
+    case "restart":
+      restartRun();
       break;
-    case "Space":
-      if (!keys.boost) {
-        keys.boost = true;
-        activateBooster();
-      }
+    case "camera":
+      cycleCameraMode();
       break;
   }
 }
 
 function onKeyUp(event: KeyboardEvent) {
-  switch (event.code) {
-    case "ArrowLeft":
-    case "KeyA":
-      keys.left = false;
-      break;
-    case "ArrowRight":
-    case "KeyD":
-      keys.right = false;
-      break;
-    case "ArrowUp":
-    case "KeyW":
-      keys.up = false;
-      break;
-    case "ArrowDown":
-    case "KeyS":
-      keys.down = false;
-      break;
-    case "Space":
-      keys.boost = false;
-      break;
+  heldKeys.delete(event.code);
+}
+
+function isActionHeld(action: Action): boolean {
+  return bindings[action].some((code) => heldKeys.has(code));
+}
+
+// Keyboard, touch stick and gamepad combined; keys count as full strength.
+// Holding boost only opens the throttle when the run has fuel to burn.
+function getFlightInput(): FlightInput {
+  const held = (action: Action) => (isActionHeld(action) ? 1 : 0);
+  const sticks = [touchStick.value, gamepad?.stick ?? { x: 0, y: 0 }];
+  const boostHeld =
+    isActionHeld("boost") || touchBoostHeld || !!gamepad?.buttons.a;
+  return quantizeInput({
+    left: Math.max(held("steerLeft"), ...sticks.map((stick) => -stick.x)),
+    right: Math.max(held("steerRight"), ...sticks.map((stick) => stick.x)),
+    up: Math.max(held("pitchUp"), ...sticks.map((stick) => -stick.y)),
+    down: Math.max(held("pitchDown"), ...sticks.map((stick) => stick.y)),
+    boost: boostHeld && flight && flight.fuel > 0 ? 1 : 0,
+  });
+}
+
+function updateGamepad() {
+  previousGamepad = gamepad;
+  gamepad = readGamepad();
+  if (!gamepad && !previousGamepad) return;
+
+  const pressed = (button: GamepadButton) =>
+    wasPressed(gamepad, previousGamepad, button);
+
+  if (gameState === "flying" && !paused) {
+    if (pressed("a")) activateBooster();
+    if (pressed("start")) togglePause();
+    if (pressed("y")) cycleCameraMode();
+    return;
   }
+
+  if (gameState !== "flying") {
+    updateGamepadPull();
+    if (gameState === "pulling") return;
+  }
+
+  // Menus: the d-pad moves focus, A activates, B backs out. Start and B
+  // resume from the pause menu. A only clicks controls in the open menu or
+  // crash overlay, never one left focused behind a closed shop.
+  const menu = getOpenMenu();
+  if (pressed("start")) {
+    if (paused) togglePause();
+    else if (menu) closeMenus();
+    else openUpgradeMenu();
+  }
+  if (pressed("b") && menu) {
+    if (paused) togglePause();
+    else closeMenus();
+  }
+  if (pressed("a")) {
+    const focused = document.activeElement;
+    const scope = getFocusScope();
+    if (scope && focused instanceof HTMLElement && scope.contains(focused)) {
+      focused.click();
+    } else {
+      activateBooster();
+    }
+  }
+  for (const direction of ["up", "down", "left", "right"] as const) {
+    if (pressed(direction)) moveMenuFocus(direction);
+  }
+}
+
+// The right trigger sets pull strength and the stick aims; letting go of the
+// trigger launches at the strongest pull held just before release
+function updateGamepadPull() {
+  const pull = gamepad?.pull ?? 0;
+
+  if (!gamepadPulling) {
+    if (gameState !== "ready" || getOpenMenu() || pull === 0) return;
+    gamepadPulling = true;
+    gamepadPullPeak = null;
+    gameState = "pulling";
+  }
+  if (gameState !== "pulling") {
+    gamepadPulling = false;
+    return;
+  }
+
+  const now = performance.now();
+  if (pull > 0) {
+    const distance = pull * MAX_PULL_DISTANCE;
+    const angle = 0.5 - (gamepad?.stick.y ?? 0) * 0.4; // Stick up = steeper
+    setPull(distance, angle);
+    if (
+      !gamepadPullPeak ||
+      distance >= gamepadPullPeak.distance ||
+      now - gamepadPullPeak.time > TRIGGER_RELEASE_WINDOW
+    ) {
+      gamepadPullPeak = { distance, angle, time: now };
+    }
+    return;
+  }
+
+  gamepadPulling = false;
+  if (gamepadPullPeak && now - gamepadPullPeak.time <= TRIGGER_RELEASE_WINDOW) {
+    setPull(gamepadPullPeak.distance, gamepadPullPeak.angle);
+  }
+  releasePull();
+}
+
+// Where gamepad focus lives: the open menu, else the crash overlay
+function getFocusScope(): HTMLElement | null {
+  const overlay = crashOverlay.classList.contains("hidden")
+    ? null
+    : crashOverlay;
+  return getOpenMenu() ?? overlay;
+}
+
+// Move focus to the nearest control in the given direction, within the open
+// menu (or overlay) so focus can't wander behind it
+function moveMenuFocus(direction: "up" | "down" | "left" | "right") {
+  const scope = getFocusScope();
+  if (!scope) return;
+  const candidates = [
+    ...scope.querySelectorAll<HTMLElement>("button, input, select"),
+  ].filter(
+    (element) =>
+      element.offsetParent !== null && !(element as HTMLButtonElement).disabled,
+  );
+  if (candidates.length === 0) return;
+
+  const current = document.activeElement as HTMLElement | null;
+  if (!current || !candidates.includes(current)) {
+    candidates[0].focus();
+    return;
+  }
+
+  const from = current.getBoundingClientRect();
+  const fromX = from.left + from.width / 2;
+  const fromY = from.top + from.height / 2;
+  let best: HTMLElement | null = null;
+  let bestScore = Infinity;
+  for (const element of candidates) {
+    if (element === current) continue;
+    const rect = element.getBoundingClientRect();
+    const dx = rect.left + rect.width / 2 - fromX;
+    const dy = rect.top + rect.height / 2 - fromY;
+    const along =
+      direction === "left"
+        ? -dx
+        : direction === "right"
+          ? dx
+          : direction === "up"
+            ? -dy
+            : dy;
+    if (along <= 0) continue;
+    const across = direction === "left" || direction === "right" ? dy : dx;
+    // Prefer controls straight ahead over ones off to the side
+    const score = along + Math.abs(across) * 2;
+    if (score < bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  }
+  best?.focus();
 }
 
 function activateBooster() {
-  if (gameState !== "flying") return;
-  if (upgrades.boosters === 0) return;
+  if (gameState !== "flying" || !flight || paused) return;
   if (boosterUsesRemaining <= 0) return;
   if (boosterActive) return; // Don't allow multiple simultaneous boosts
 
   boosterUsesRemaining--;
 
-  // Get booster stats
-  const boosterTier = UPGRADES.boosters.tiers[upgrades.boosters - 1];
-  const boostPower = boosterTier.boost;
-
   // Add forward velocity boost
-  const forward = new THREE.Vector3(0, 0.3, 1).normalize();
-  velocity.add(forward.multiplyScalar(boostPower));
+  flight = applyBoost(flight, flightModifiers.boost);
+  if (recorder) recordBoost(recorder, flight.tick);
 
   // Start visual effect
   boosterActive = true;
@@ -898,13 +2296,55 @@ function activateBooster() {
   createBoosterParticles();
 }
 
-function createBoosterParticles() {
-  // Remove existing particles
-  if (boosterParticles) {
-    scene.remove(boosterParticles);
-    boosterParticles.geometry.dispose();
-    (boosterParticles.material as THREE.Material).dispose();
+// Freeze the flight behind the pause menu; in a replay this toggles playback
+// instead. With settings open on top of the menu, it backs out of those first.
+function togglePause() {
+  if (gameState === "replay") {
+    toggleReplayPlayback();
+    return;
+  }
+  if (gameState !== "flying") return;
+  if (paused && !settingsMenu.classList.contains("hidden")) {
+    closeSettingsMenu();
+    return;
+  }
+  paused = !paused;
+  pauseMenu.classList.toggle("hidden", !paused);
+  if (paused) pauseResumeBtn.focus();
+}
+
+// Losing focus or hiding the tab mid-flight pauses rather than letting the
+// run carry on unwatched
+function autoPause() {
+  if (gameState === "flying" && !paused) togglePause();
+  if (gameState === "replay" && replayPlaying) toggleReplayPlayback();
+}
+
+// Abandon the run and fire the same shot again
+function retryRun() {
+  const shot = lastShot;
+  restartRun();
+  if (!shot || gameState !== "ready") return;
+  pullDistance = shot.pullDistance;
+  launchAngle = shot.launchAngle;
+  launch();
+}
+
+// Back to the slingshot. A run in progress is abandoned: no coins, no replay
+// and no ghost, though how far it got still counts toward the best distance.
+function restartRun() {
+  if (gameState === "replay") exitReplay();
+  if (gameState === "flying") {
+    recorder = null;
+    leaveFlight();
+    saveProgress();
+    hudElement.classList.add("hidden");
   }
+  if (gameState === "flying" || gameState === "crashed") resetGame();
+}
+
+function createBoosterParticles() {
+  removeBoosterParticles();
 
   // Create particle geometry
   const particleCount = 50;
@@ -937,43 +2377,83 @@ function createBoosterParticles() {
   scene.add(boosterParticles);
 }
 
-function updateBoosterEffect(deltaTime: number) {
-  if (!boosterActive || !boosterParticles) return;
+function removeBoosterParticles() {
+  if (!boosterParticles) return;
+  scene.remove(boosterParticles);
+  boosterParticles.geometry.dispose();
+  (boosterParticles.material as THREE.Material).dispose();
+  boosterParticles = null;
+}
 
-  boosterTimer -= deltaTime;
+// Throttle of the flight on screen, live or replayed
+function getShownThrottle(): number {
+  if (gameState === "replay") return replayFrames[replayTick]?.throttle ?? 0;
+  return gameState === "flying" ? (flight?.throttle ?? 0) : 0;
+}
+
+// A one-shot boost fades out over BOOSTER_DURATION; a throttle booster's
+// plume grows and shrinks with the throttle
+function updateBoosterEffect(deltaTime: number) {
+  if (boosterActive) {
+    boosterTimer -= deltaTime;
+    if (boosterTimer <= 0) boosterActive = false;
+  }
+  const throttle = getShownThrottle();
+  const strength = boosterActive ? boosterTimer / BOOSTER_DURATION : throttle;
 
-  if (boosterTimer <= 0) {
-    // Remove particles
-    boosterActive = false;
-    scene.remove(boosterParticles);
-    boosterParticles.geometry.dispose();
-    (boosterParticles.material as THREE.Material).dispose();
-    boosterParticles = null;
+  if (strength <= 0) {
+    removeBoosterParticles();
     return;
   }
+  if (!boosterParticles) createBoosterParticles();
+  const particles = boosterParticles!;
+  const plume = boosterActive ? 1 : Math.max(0.3, throttle);
 
   // Update particle positions to follow plane
-  boosterParticles.position.copy(plane.position);
-  boosterParticles.position.z -= PLANE_LENGTH / 2;
+  particles.position.copy(plane.position);
+  particles.position.z -= PLANE_LENGTH / 2;
 
   // Animate particles
-  const positions = boosterParticles.geometry.attributes.position
+  const positions = particles.geometry.attributes.position
     .array as Float32Array;
   for (let i = 0; i < positions.length / 3; i++) {
     positions[i * 3 + 2] -= deltaTime * 10; // Move backward
 
     // Reset particle if too far
-    if (positions[i * 3 + 2] < -3) {
+    if (positions[i * 3 + 2] < -3 * plume) {
       positions[i * 3] = (Math.random() - 0.5) * 0.5;
       positions[i * 3 + 1] = (Math.random() - 0.5) * 0.5;
       positions[i * 3 + 2] = 0;
     }
   }
-  boosterParticles.geometry.attributes.position.needsUpdate = true;
+  particles.geometry.attributes.position.needsUpdate = true;
 
-  // Fade out
-  (boosterParticles.material as THREE.PointsMaterial).opacity =
-    boosterTimer / BOOSTER_DURATION;
+  const material = particles.material as THREE.PointsMaterial;
+  material.opacity = strength;
+  material.size = 0.3 * plume;
+}
+
+// Launch for the current pull; the aiming arc flies the same parameters
+function getLaunchParams(): LaunchParams {
+  // Get starting position from checkpoint FIRST
+  const startZ = getCheckpointStartPosition();
+
+  // CRITICAL: Ensure startZ is a valid number
+  const safeStartZ =
+    typeof startZ === "number" && !isNaN(startZ) && isFinite(startZ)
+      ? startZ
+      : 0;
+
+  return {
+    startZ: safeStartZ,
+    height: slingshotHeight,
+    pullDistance,
+    launchAngle,
+    seed: hashSeed(`${worldSeed}:flight`),
+    windSeed: hashSeed(`${worldSeed}:wind:${windRun}`),
+    weather,
+    boosterMode,
+  };
 }
 
 function launch() {
@@ -986,89 +2466,61 @@ function launch() {
   gameState = "flying";
   launchInstructions.classList.add("hidden");
   checkpointSelector.classList.add("hidden");
+  seedPanel.classList.add("hidden");
+  weatherPanel.classList.add("hidden");
+  loadoutPanel.classList.add("hidden");
   hudElement.classList.remove("hidden");
+  hideTrajectory();
 
-  // Get starting position from checkpoint FIRST
-  const startZ = getCheckpointStartPosition();
-
-  // CRITICAL: Ensure startZ is a valid number
-  const safeStartZ =
-    typeof startZ === "number" && !isNaN(startZ) && isFinite(startZ)
-      ? startZ
-      : 0;
-
+  const launchParams = getLaunchParams();
   console.log("[launch] Safe start position", {
-    startZ,
-    safeStartZ,
+    startZ: launchParams.startZ,
     currentCheckpoint,
   });
 
-  startingZ = safeStartZ;
-
-  // CRITICAL: Reset plane position IMMEDIATELY to a known good state
-  plane.position.set(0, slingshotHeight, safeStartZ);
-  plane.rotation.set(0, 0, 0);
-
-  // Reset velocity to zero first
-  velocity.set(0, 0, 0);
-  angularVelocity.set(0, 0, 0);
+  startingZ = launchParams.startZ;
+  lastShot = {
+    pullDistance: launchParams.pullDistance,
+    launchAngle: launchParams.launchAngle,
+  };
 
   // Reset distance
   distance = 0;
   highestDistanceThisRun = 0;
-
-  // Calculate launch velocity with slingshot upgrade
-  const slingshotMultiplier =
-    upgrades.slingshot > 0
-      ? UPGRADES.slingshot.tiers[upgrades.slingshot - 1].power
-      : 1;
-
-  // Clamp pullDistance to valid range
-  const safePullDistance = Math.max(
-    0,
-    Math.min(MAX_PULL_DISTANCE, pullDistance),
-  );
-
-  // Ensure minimum power so launches always go somewhere
-  const minPower = 20;
-  const maxPower = 200; // Cap maximum power
-  const basePower = safePullDistance * LAUNCH_POWER_MULTIPLIER;
-  const power = Math.min(
-    maxPower,
-    Math.max(minPower, basePower) * slingshotMultiplier,
+  resetPickups();
+  pickupDisplay.classList.remove("hidden");
+  slowMotionLeft = SLOW_MOTION_PER_RUN;
+  slowMotionDisplay.classList.remove("hidden");
+
+  flightModifiers = getUpgradeModifiers(equipped);
+  flight = createLaunchState(launchParams, flightModifiers);
+  recorder = createRecorder(
+    worldSeed,
+    currentCheckpoint,
+    launchParams,
+    equipped,
   );
+  windRun++; // The next run gets different wind
+  previousFlight = flight;
+  physicsAccumulator = 0;
+  syncPlaneToFlight(flight);
 
-  // Calculate actual launch angle from player input (15 to 65 degrees)
-  // Clamp launchAngle to valid range
-  const safeLaunchAngle = Math.max(0, Math.min(1, launchAngle));
-  const actualAngle = (15 + safeLaunchAngle * 50) * (Math.PI / 180);
-
-  // Set velocity based on player-controlled angle
-  const velY = Math.sin(actualAngle) * power;
-  const velZ = Math.cos(actualAngle) * power;
-
-  // Sanity check velocities
-  const safeVelY = isFinite(velY) && !isNaN(velY) ? velY : 10;
-  const safeVelZ = isFinite(velZ) && !isNaN(velZ) ? velZ : 20;
-
-  velocity.set(0, safeVelY, safeVelZ);
+  // Fly against the best run from this checkpoint in this world
+  activeGhost = loadGhost(worldSeed, currentCheckpoint);
+  ghostPlane.visible = !!activeGhost;
+  ghostDisplay.classList.toggle("hidden", !activeGhost);
 
   console.log("[launch] After setup", {
     planePositionZ: plane.position.z,
-    velocityZ: velocity.z,
+    velocityZ: flight.velocity.z,
     startingZ,
-    power,
-    safePullDistance,
+    pullDistance,
   });
 
-  // Minimal tumble at start - plane should fly cleanly initially
-  const tumbleMultiplier = upgrades.wings > 0 ? 0.1 : 0.5;
-  angularVelocity.set((Math.random() - 0.5) * tumbleMultiplier, 0, 0);
-
-  // Reset booster uses
-  if (upgrades.boosters > 0) {
-    boosterUsesRemaining = UPGRADES.boosters.tiers[upgrades.boosters - 1].uses;
-  }
+  // Fill the booster: burst charges or a fuel tank, never both
+  boosterUsesRemaining =
+    launchParams.boosterMode === "continuous" ? 0 : flightModifiers.uses;
+  fuelTank = flight.fuel;
 
   // Reset launch angle for next time
   launchAngle = 0.5;
@@ -1082,11 +2534,13 @@ function launch() {
   physicsFrameCount = 0;
 
   // FINAL SANITY CHECK - if plane is somehow past 6000, force it back
-  if (plane.position.z >= 6000) {
+  if (flight.position.z >= 6000) {
     console.error(
       "[launch] CRITICAL: Plane position was >= 6000, forcing reset!",
     );
-    plane.position.z = safeStartZ;
+    flight = { ...flight, position: { ...flight.position, z: startingZ } };
+    previousFlight = flight;
+    syncPlaneToFlight(flight);
   }
 
   console.log(
@@ -1100,177 +2554,41 @@ function launch() {
 let physicsFrameCount = 0;
 
 function updatePhysics(deltaTime: number) {
-  if (gameState !== "flying") return;
-
-  // SANITY CHECK: Clamp deltaTime to prevent physics explosions
-  const safeDeltaTime = Math.min(deltaTime, 0.1);
-
-  // SANITY CHECK: If plane position is invalid, reset the game
-  if (!isFinite(plane.position.z) || isNaN(plane.position.z)) {
-    console.error(
-      "[updatePhysics] INVALID plane.position.z detected!",
-      plane.position.z,
-    );
-    plane.position.z = startingZ;
-    velocity.set(0, 0, 0);
-  }
-
-  // SANITY CHECK: Clamp plane position to reasonable bounds
-  if (plane.position.z > 10000) {
-    console.error("[updatePhysics] Plane Z too large!", plane.position.z);
-    plane.position.z = Math.min(plane.position.z, 6500); // Just past victory
-  }
+  if (gameState !== "flying" || !flight) return;
 
-  // SANITY CHECK: Clamp velocity to prevent teleportation
-  const maxVelocity = 500;
-  if (Math.abs(velocity.x) > maxVelocity)
-    velocity.x = Math.sign(velocity.x) * maxVelocity;
-  if (Math.abs(velocity.y) > maxVelocity)
-    velocity.y = Math.sign(velocity.y) * maxVelocity;
-  if (Math.abs(velocity.z) > maxVelocity)
-    velocity.z = Math.sign(velocity.z) * maxVelocity;
+  previousFlight = flight;
+  const input = getFlightInput();
+  if (recorder) recordTick(recorder, input);
+  flight = step(flight, input, flightModifiers, deltaTime);
+  syncPlaneToFlight(flight);
 
   physicsFrameCount++;
   if (physicsFrameCount <= 5) {
     console.log(`[updatePhysics] Frame ${physicsFrameCount}`, {
-      planePositionZ: plane.position.z,
-      velocityZ: velocity.z,
+      planePositionZ: flight.position.z,
+      velocityZ: flight.velocity.z,
       startingZ,
-      distance,
-      safeDeltaTime,
+      distance: flight.distance,
+      deltaTime,
     });
   }
 
-  // Calculate upgrade effects
-  const hasWings = upgrades.wings > 0;
-  const hasTail = upgrades.tail > 0;
-  const hasWheels = upgrades.wheels > 0;
-
-  // Get upgrade stats
-  const wingStats = hasWings ? UPGRADES.wings.tiers[upgrades.wings - 1] : null;
-  const aeroStats =
-    upgrades.aerodynamic > 0
-      ? UPGRADES.aerodynamic.tiers[upgrades.aerodynamic - 1]
-      : null;
-  const wheelStats = hasWheels
-    ? UPGRADES.wheels.tiers[upgrades.wheels - 1]
-    : null;
-  const tailStats = hasTail ? UPGRADES.tail.tiers[upgrades.tail - 1] : null;
-
-  // Apply player controls
-  const baseControl = 0.5; // Minimal nudge without upgrades
-  const wingControl = wingStats ? wingStats.control * 20 : 0;
-  const lateralControl = baseControl + wingControl;
-
-  // Left/Right movement
-  if (keys.left) {
-    velocity.x += lateralControl * deltaTime;
-    plane.rotation.z = Math.max(plane.rotation.z - 2 * deltaTime, -0.3);
-  }
-  if (keys.right) {
-    velocity.x -= lateralControl * deltaTime;
-    plane.rotation.z = Math.min(plane.rotation.z + 2 * deltaTime, 0.3);
-  }
-
-  // Up/Down pitch control (requires wings + tail)
-  if (hasWings && hasTail && tailStats) {
-    const pitchControl = tailStats.pitch * 15;
-    if (keys.up) {
-      velocity.y += pitchControl * deltaTime;
-      plane.rotation.x = Math.max(plane.rotation.x - deltaTime, -0.5);
-    }
-    if (keys.down) {
-      velocity.y -= pitchControl * deltaTime * 0.5;
-      plane.rotation.x = Math.min(plane.rotation.x + deltaTime, 0.5);
-    }
-  }
-
-  // Apply gravity
-  velocity.y += GRAVITY * deltaTime;
-
-  // Apply lift (if has wings and moving forward)
-  if (hasWings && wingStats && velocity.z > 5) {
-    const liftForce = wingStats.lift * velocity.z * 0.5;
-    velocity.y += liftForce * deltaTime;
-  }
-
-  // Apply drag (reduced by aerodynamic upgrade)
-  const dragReduction = aeroStats ? aeroStats.dragReduction : 0;
-  const effectiveDrag = BASE_DRAG * (1 - dragReduction);
-  const speed = velocity.length();
-  const dragForce = speed * speed * effectiveDrag;
-  if (speed > 0) {
-    // CRITICAL FIX: Clamp the multiplier to never go negative (which would reverse velocity)
-    // With high speeds, dragForce * deltaTime can exceed 1, causing velocity to flip sign
-    const dragMultiplier = Math.max(0.1, 1 - dragForce * deltaTime);
-    velocity.multiplyScalar(dragMultiplier);
-  }
-
-  // Update position
-  plane.position.add(velocity.clone().multiplyScalar(deltaTime));
-
-  // Clamp X position to keep plane on screen
-  plane.position.x = Math.max(-50, Math.min(50, plane.position.x));
-
-  // Update rotation (tumbling) - reduced if has wings
-  if (!hasWings) {
-    plane.rotation.x += angularVelocity.x * deltaTime;
-    plane.rotation.z += angularVelocity.z * deltaTime;
-  } else {
-    // With wings, slowly stabilize
-    angularVelocity.multiplyScalar(0.95);
-    plane.rotation.x += angularVelocity.x * deltaTime * 0.3;
-    // Gradually level out roll when not turning
-    if (!keys.left && !keys.right) {
-      plane.rotation.z *= 0.95;
-    }
-  }
-
-  // Ground collision
-  if (plane.position.y <= PLANE_HEIGHT / 2) {
-    plane.position.y = PLANE_HEIGHT / 2;
-
-    if (velocity.y < -1) {
-      // Bounce behavior depends on wheels
-      velocity.y = -velocity.y * BOUNCE_DAMPING;
-
-      if (hasWheels && wheelStats) {
-        // Wheels: smoother landing, less speed loss
-        velocity.z *= wheelStats.friction;
-        angularVelocity.set(0, 0, 0);
-        plane.rotation.x = 0;
-        plane.rotation.z = 0;
-      } else {
-        // No wheels: tumble and lose more speed
-        velocity.z *= TUMBLE_SLOWDOWN;
-        angularVelocity.x += (Math.random() - 0.5) * 3;
-      }
-    } else {
-      velocity.y = 0;
-      // Ground friction
-      if (hasWheels && wheelStats) {
-        velocity.z *= 0.995; // Wheels roll nicely
-      } else {
-        velocity.z *= 0.98; // More friction without wheels
-      }
-    }
-  }
-
   // Update distance (relative to where we started, but show absolute position for zone display)
-  const distanceFromStart = plane.position.z - startingZ;
-  distance = Math.max(0, distanceFromStart);
-  highestDistanceThisRun = Math.max(highestDistanceThisRun, plane.position.z);
+  distance = flight.distance;
+  highestDistanceThisRun = Math.max(highestDistanceThisRun, flight.highestZ);
 
   // Check for checkpoint unlocks
   checkAndUnlockCheckpoints();
 
   // Check for obstacle collisions
   checkObstacleCollisions();
+  if (gameState !== "flying") return;
+  checkPickups();
 
   // Check for victory (reached mountain base at 6000m)
-  if (plane.position.z >= 6000) {
+  if (flight.status === "victory") {
     console.log("[updatePhysics] VICTORY TRIGGERED!", {
-      planePositionZ: plane.position.z,
+      planePositionZ: flight.position.z,
       startingZ,
       distance,
       physicsFrameCount,
@@ -1280,7 +2598,7 @@ function updatePhysics(deltaTime: number) {
   }
 
   // Check if stopped
-  if (velocity.length() < 0.5 && plane.position.y <= PLANE_HEIGHT / 2 + 0.1) {
+  if (flight.status === "stopped") {
     crash();
   }
 
@@ -1288,6 +2606,70 @@ function updatePhysics(deltaTime: number) {
   updateHUD();
 }
 
+// Copy simulation state onto the scene graph
+function syncPlaneToFlight(state: FlightState) {
+  plane.position.set(state.position.x, state.position.y, state.position.z);
+  plane.rotation.set(state.rotation.x, state.rotation.y, state.rotation.z);
+}
+
+// Step physics at a fixed rate so results don't depend on display refresh
+function advancePhysics(frameTime: number) {
+  physicsAccumulator += frameTime;
+
+  while (physicsAccumulator >= PHYSICS_STEP && gameState === "flying") {
+    updatePhysics(PHYSICS_STEP);
+    physicsAccumulator -= PHYSICS_STEP;
+  }
+
+  if (gameState !== "flying") {
+    physicsAccumulator = 0;
+    return;
+  }
+
+  // Render between the last two ticks
+  if (flight && previousFlight) {
+    const alpha = physicsAccumulator / PHYSICS_STEP;
+    const pose = interpolatePose(previousFlight, flight, alpha);
+    plane.position.set(pose.position.x, pose.position.y, pose.position.z);
+    plane.rotation.set(pose.rotation.x, pose.rotation.y, pose.rotation.z);
+    updateGhost((previousFlight.tick + alpha) * PHYSICS_STEP);
+  }
+}
+
+// Slow motion eases in while held and spends the run's allowance in real
+// seconds. Physics still advances in fixed ticks, only fewer per frame, so a
+// slowed run records and replays exactly like any other.
+function updateTimeScale(deltaTime: number): number {
+  const slowing =
+    gameState === "flying" &&
+    slowMotionLeft > 0 &&
+    (isActionHeld("slowMotion") || touchSlowHeld || !!gamepad?.buttons.lb);
+  if (slowing) slowMotionLeft = Math.max(0, slowMotionLeft - deltaTime);
+
+  const target = slowing ? SLOW_MOTION_SCALE : 1;
+  timeScale =
+    gameState === "flying"
+      ? timeScale + (target - timeScale) * Math.min(1, deltaTime * 10)
+      : 1;
+
+  slowMotionLevel.style.width = `${(slowMotionLeft / SLOW_MOTION_PER_RUN) * 100}%`;
+  touchSlowBtn.classList.toggle("empty", slowMotionLeft <= 0);
+  return timeScale;
+}
+
+function updateGhost(time: number) {
+  if (!activeGhost || !flight) return;
+
+  const pose = sampleGhost(activeGhost, time);
+  ghostPlane.position.set(pose.position.x, pose.position.y, pose.position.z);
+  ghostPlane.rotation.set(pose.rotation.x, pose.rotation.y, pose.rotation.z);
+
+  const gap = Math.round(flight.position.z - pose.position.z);
+  ghostDisplay.textContent =
+    gap >= 0 ? `Ahead by ${gap}m` : `Behind by ${-gap}m`;
+  ghostDisplay.classList.toggle("behind", gap < 0);
+}
+
 function updateHUD() {
   distanceDisplay.textContent = `${Math.floor(distance)}m`;
 
@@ -1299,54 +2681,309 @@ function updateHUD() {
   else if (absolutePosition >= ZONES.city.start) zoneName = "City";
 
   zoneDisplay.textContent = zoneName;
+  updateWindDisplay(flight ? flight.wind : CALM);
 
   // Update booster display
-  if (upgrades.boosters > 0) {
+  if (fuelTank > 0) {
+    boosterDisplay.classList.add("hidden");
+    fuelDisplay.classList.remove("hidden");
+    fuelLevel.style.width = `${((flight?.fuel ?? 0) / fuelTank) * 100}%`;
+  } else if (flightModifiers.uses > 0) {
+    fuelDisplay.classList.add("hidden");
     boosterDisplay.classList.remove("hidden");
     boosterCount.textContent = boosterUsesRemaining.toString();
   } else {
+    fuelDisplay.classList.add("hidden");
     boosterDisplay.classList.add("hidden");
   }
 }
 
-function updateCamera(instant = false) {
-  const targetPosition = new THREE.Vector3(
-    plane.position.x + CAMERA_OFFSET.x,
-    plane.position.y + CAMERA_OFFSET.y,
-    plane.position.z + CAMERA_OFFSET.z,
-  );
+// Arrow shows the crosswind and updraft as seen from behind the plane (+x is
+// screen left); head or tail wind is named in the text
+function updateWindDisplay(wind: Vec3) {
+  const screenX = -wind.x;
+  const screenY = -wind.y;
+  const speed = Math.hypot(wind.x, wind.y, wind.z);
+  const along =
+    Math.abs(wind.z) > Math.hypot(wind.x, wind.y)
+      ? wind.z > 0
+        ? " tailwind"
+        : " headwind"
+      : "";
+  windArrow.style.transform = `rotate(${Math.atan2(screenY, screenX)}rad)`;
+  windArrow.classList.toggle("hidden", Math.hypot(screenX, screenY) < 0.5);
+  windSpeed.textContent = `${Math.round(speed)} m/s${along}`;
+}
 
-  if (instant) {
-    camera.position.copy(targetPosition);
-  } else {
-    camera.position.lerp(targetPosition, CAMERA_LERP_SPEED);
+// Ease the camera toward the current mode's pose. Aiming uses the plain chase
+// view and a finished flight circles the crash site.
+function updateCamera(instant = false, deltaTime = 1 / 60) {
+  const stage =
+    gameState === "flying" || gameState === "replay"
+      ? "flying"
+      : gameState === "crashed"
+        ? "settled"
+        : "aiming";
+  const pose = updateCameraRig(cameraRig, getCameraSubject(), deltaTime, stage);
+
+  // Follow rates are per 60 Hz frame; scale them so any refresh rate matches
+  const lerp =
+    instant || pose.cut ? 1 : 1 - Math.pow(1 - pose.follow, deltaTime * 60);
+  camera.position.lerp(new THREE.Vector3().copy(pose.position), lerp);
+  cameraRoll += (pose.roll - cameraRoll) * lerp;
+  if (camera.fov !== pose.fov) {
+    camera.fov += (pose.fov - camera.fov) * lerp;
+    if (Math.abs(camera.fov - pose.fov) < 0.1) camera.fov = pose.fov;
+    camera.updateProjectionMatrix();
   }
 
-  camera.lookAt(plane.position);
+  camera.lookAt(new THREE.Vector3().copy(pose.target));
+  camera.rotateZ(cameraRoll);
 }
 
-function crash() {
+function getCameraSubject(): CameraSubject {
+  const state =
+    gameState === "replay"
+      ? replayFrames[replayTick]
+      : gameState === "flying"
+        ? flight
+        : null;
+  return {
+    position: plane.position,
+    rotation: plane.rotation,
+    velocity: state?.velocity ?? { x: 0, y: 0, z: 0 },
+  };
+}
+
+function cycleCameraMode() {
+  cameraRig.mode = getNextCameraMode(cameraRig.mode);
+  cameraLabel.textContent = `Camera: ${CAMERA_MODES[cameraRig.mode].label}`;
+  cameraLabel.classList.remove("hidden");
+  cameraLabelTimer = CAMERA_LABEL_TIME;
+  saveProgress();
+}
+
+function updateCameraLabel(deltaTime: number) {
+  if (cameraLabelTimer <= 0) return;
+  cameraLabelTimer -= deltaTime;
+  if (cameraLabelTimer <= 0) cameraLabel.classList.add("hidden");
+}
+
+function crash(obstacle?: ObstacleType, normal?: Vec3) {
   gameState = "crashed";
+  finishRun("crashed", obstacle);
+  if (flight) {
+    breakPlane(
+      getReboundVelocity(flight.velocity, normal),
+      getCrashSeverity(flight.velocity),
+    );
+  }
 
   // Calculate coins earned
-  const coinsEarned = Math.floor(distance);
+  const coinsEarned = Math.floor(distance) + pickupTally.bonus;
   coins += coinsEarned;
   saveProgress();
 
   // Show crash overlay
   crashDistance.textContent = Math.floor(distance).toString();
   crashCoins.textContent = coinsEarned.toString();
+  showCrashPickups();
+  crashCause.textContent = obstacle
+    ? `You hit ${OBSTACLE_NAMES[obstacle]}.`
+    : "You came to a stop.";
+  crashCause.classList.remove("hidden");
   crashOverlay.classList.remove("hidden");
   hudElement.classList.add("hidden");
 
   updateCoinDisplay();
 }
 
+// Split the plane into debris; harder impacts knock more parts off. Bolt-on
+// upgrade parts go first, then the nose and tail; the fuselage stays with the
+// plane group.
+function breakPlane(velocity: Vec3, severity: number) {
+  const breakable = plane.children
+    .slice(1)
+    .sort(
+      (a, b) => Number(!!b.userData.isUpgrade) - Number(!!a.userData.isUpgrade),
+    );
+  const detached = breakable
+    .slice(0, Math.round(severity * breakable.length))
+    .map((mesh) => ({
+      mesh,
+      position: mesh.position.clone(),
+      rotation: mesh.rotation.clone(),
+    }));
+
+  plane.updateMatrixWorld(true);
+  const pieces = [plane, ...detached.map(({ mesh }) => mesh)];
+  const { x, y, z } = plane.rotation;
+  const body = createDebris(
+    [
+      {
+        position: {
+          x: plane.position.x,
+          y: plane.position.y,
+          z: plane.position.z,
+        },
+        rotation: { x, y, z },
+        radius: PLANE_HEIGHT / 2,
+      },
+      ...detached.map(({ mesh }) => detachPiece(mesh)),
+    ],
+    velocity,
+    severity,
+    PHYSICS_STEP,
+  );
+
+  wreck = {
+    body,
+    pieces,
+    detached,
+    ...createSparks(plane.position, severity),
+    smoke: severity > 0 ? createSmoke(severity) : null,
+    time: 0,
+  };
+  wreckAccumulator = 0;
+}
+
+function createSparks(origin: THREE.Vector3, severity: number) {
+  const count = Math.round(80 * severity); // None for a gentle stop
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const sparkVelocities = new Float32Array(count * 3);
+  const speed = 4 + 10 * severity;
+
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = origin.x;
+    positions[i * 3 + 1] = origin.y;
+    positions[i * 3 + 2] = origin.z;
+
+    sparkVelocities[i * 3] = (Math.random() - 0.5) * 2 * speed;
+    sparkVelocities[i * 3 + 1] = Math.random() * speed;
+    sparkVelocities[i * 3 + 2] = (Math.random() - 0.5) * 2 * speed;
+
+    // Yellow to orange
+    colors[i * 3] = 1;
+    colors[i * 3 + 1] = 0.5 + Math.random() * 0.5;
+    colors[i * 3 + 2] = 0.1;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+  const material = new THREE.PointsMaterial({
+    size: 0.25,
+    vertexColors: true,
+    transparent: true,
+  });
+
+  const sparks = new THREE.Points(geometry, material);
+  scene.add(sparks);
+  return { sparks, sparkVelocities };
+}
+
+// Smoke column over the airframe; particles are local to it and recycle
+function createSmoke(severity: number): THREE.Points {
+  const count = 10 + Math.round(30 * severity);
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = (Math.random() - 0.5) * 0.8;
+    positions[i * 3 + 1] = Math.random() * SMOKE_HEIGHT;
+    positions[i * 3 + 2] = (Math.random() - 0.5) * 0.8;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  const material = new THREE.PointsMaterial({
+    color: 0x555555,
+    size: 1.2,
+    transparent: true,
+    opacity: 0.2 + 0.3 * severity,
+    depthWrite: false,
+  });
+
+  const smoke = new THREE.Points(geometry, material);
+  scene.add(smoke);
+  return smoke;
+}
+
+function updateWreck(deltaTime: number) {
+  if (!wreck) return;
+
+  wreck.time += deltaTime;
+  wreckAccumulator += deltaTime;
+  while (wreckAccumulator >= PHYSICS_STEP) {
+    stepRagdoll(wreck.body, PHYSICS_STEP);
+    wreckAccumulator -= PHYSICS_STEP;
+  }
+  wreck.body.parts.forEach(({ position, rotation }, index) => {
+    wreck!.pieces[index].position.set(position.x, position.y, position.z);
+    wreck!.pieces[index].rotation.set(rotation.x, rotation.y, rotation.z);
+  });
+
+  // Sparks fly out, fall and fade
+  const sparkMaterial = wreck.sparks.material as THREE.PointsMaterial;
+  if (sparkMaterial.visible) {
+    const positions = wreck.sparks.geometry.attributes.position
+      .array as Float32Array;
+    const velocities = wreck.sparkVelocities;
+    for (let i = 0; i < positions.length; i += 3) {
+      velocities[i + 1] += GRAVITY * deltaTime;
+      positions[i] += velocities[i] * deltaTime;
+      positions[i + 1] = Math.max(
+        0,
+        positions[i + 1] + velocities[i + 1] * deltaTime,
+      );
+      positions[i + 2] += velocities[i + 2] * deltaTime;
+    }
+    wreck.sparks.geometry.attributes.position.needsUpdate = true;
+    sparkMaterial.opacity = Math.max(0, 1 - wreck.time / SPARK_LIFETIME);
+    sparkMaterial.visible = wreck.time < SPARK_LIFETIME;
+  }
+
+  // Smoke drifts up from wherever the airframe came to rest
+  if (wreck.smoke) {
+    wreck.smoke.position.copy(plane.position);
+    const positions = wreck.smoke.geometry.attributes.position
+      .array as Float32Array;
+    for (let i = 0; i < positions.length; i += 3) {
+      positions[i] += (Math.random() - 0.5) * deltaTime;
+      positions[i + 1] += deltaTime * 1.5;
+      if (positions[i + 1] > SMOKE_HEIGHT) {
+        positions[i] = (Math.random() - 0.5) * 0.8;
+        positions[i + 1] = 0;
+        positions[i + 2] = (Math.random() - 0.5) * 0.8;
+      }
+    }
+    wreck.smoke.geometry.attributes.position.needsUpdate = true;
+  }
+}
+
+// Put broken-off parts back on the plane and clear the crash effects
+function repairPlane() {
+  if (!wreck) return;
+
+  for (const { mesh, position, rotation } of wreck.detached) {
+    plane.add(mesh);
+    mesh.position.copy(position);
+    mesh.rotation.copy(rotation);
+  }
+  for (const effect of [wreck.sparks, wreck.smoke]) {
+    if (!effect) continue;
+    scene.remove(effect);
+    effect.geometry.dispose();
+    (effect.material as THREE.Material).dispose();
+  }
+  wreck = null;
+}
+
 function victory() {
   gameState = "crashed"; // Use same state to stop physics
+  finishRun("victory");
 
   // Big coin bonus for victory!
-  const coinsEarned = Math.floor(distance) + 10000;
+  const coinsEarned = Math.floor(distance) + pickupTally.bonus + 10000;
   coins += coinsEarned;
   saveProgress();
 
@@ -1356,12 +2993,190 @@ function victory() {
   crashContent.querySelector("h2")!.style.color = "#2ecc71";
   crashDistance.textContent = "6000+ (Mountain Base!)";
   crashCoins.textContent = coinsEarned.toString();
+  showCrashPickups();
+  crashCause.classList.add("hidden");
   crashOverlay.classList.remove("hidden");
   hudElement.classList.add("hidden");
 
   updateCoinDisplay();
 }
 
+function showCrashPickups() {
+  const { bonus, coins: coinsTaken, rings } = pickupTally;
+  crashPickups.textContent = `Includes ${bonus} from pickups (${coinsTaken} coins, ${rings} rings)`;
+  crashPickups.classList.toggle("hidden", bonus === 0);
+}
+
+// Every way out of a flight, finished or abandoned, comes through here, so
+// this is the one place the best distance rises. Watching a replay never
+// does: its distance belongs to the recorded run, not a new best.
+function leaveFlight() {
+  savedHighestDistance = Math.max(distance, savedHighestDistance);
+  resolvedObstacles.clear();
+  activeGhost = null;
+  ghostPlane.visible = false;
+  ghostDisplay.classList.add("hidden");
+}
+
+function finishRun(outcome: ReplayOutcome, obstacle?: ObstacleType) {
+  leaveFlight();
+  startOrbit(cameraRig, camera.position, plane.position);
+  if (recorder) {
+    lastReplay = finishRecording(recorder, outcome, distance, obstacle);
+    recorder = null;
+
+    // Replace the stored ghost when this run went further
+    const path = createGhostPath(
+      simulateReplay(lastReplay),
+      lastReplay.physicsStep,
+      distance,
+    );
+    saveGhostIfBest(lastReplay.worldSeed, lastReplay.checkpoint, path);
+  }
+  replayBtn.disabled = !lastReplay;
+  replayExportBtn.disabled = !lastReplay;
+  showReplayMessage("");
+}
+
+function startReplay(replay: Replay) {
+  if (gameState !== "crashed" && gameState !== "replay") return;
+
+  // The replay only makes sense in the world it was recorded in
+  if (replay.worldSeed !== worldSeed) {
+    applyWorldSeed(replay.worldSeed);
+  }
+
+  activeReplay = replay;
+  applyWeather(replay.launch.weather ?? "clear");
+  replayFrames = simulateReplay(replay);
+  replayTime = 0;
+  replayTick = 0;
+  replayPlaying = true;
+  gameState = "replay";
+
+  updatePlaneVisuals(replay.upgrades);
+  startingZ = replay.launch.startZ;
+  replayScrub.max = String(replayFrames.length - 1);
+  crashOverlay.classList.add("hidden");
+  replayControls.classList.remove("hidden");
+  hudElement.classList.remove("hidden");
+  boosterDisplay.classList.add("hidden");
+  fuelDisplay.classList.add("hidden");
+  pickupDisplay.classList.add("hidden");
+  slowMotionDisplay.classList.add("hidden");
+
+  updateReplay(0);
+  updateCamera(true);
+}
+
+function updateReplay(deltaTime: number) {
+  if (gameState !== "replay" || replayFrames.length === 0) return;
+
+  const lastTick = replayFrames.length - 1;
+  const endTime = lastTick * PHYSICS_STEP;
+  if (replayPlaying) {
+    replayTime = Math.min(replayTime + deltaTime, endTime);
+    if (replayTime >= endTime) replayPlaying = false;
+  }
+
+  const exactTick = replayTime / PHYSICS_STEP;
+  const tick = Math.min(Math.floor(exactTick), lastTick);
+  const nextTick = Math.min(tick + 1, lastTick);
+
+  // Re-fire booster effects as playback passes them
+  if (activeReplay && tick > replayTick) {
+    const boosted = activeReplay.boosts.some(
+      (boostTick) => boostTick > replayTick && boostTick <= tick,
+    );
+    if (boosted) {
+      boosterActive = true;
+      boosterTimer = BOOSTER_DURATION;
+      createBoosterParticles();
+    }
+  }
+  replayTick = tick;
+
+  const pose = interpolatePose(
+    replayFrames[tick],
+    replayFrames[nextTick],
+    exactTick - tick,
+  );
+  plane.position.set(pose.position.x, pose.position.y, pose.position.z);
+  plane.rotation.set(pose.rotation.x, pose.rotation.y, pose.rotation.z);
+
+  distance = replayFrames[tick].distance;
+  distanceDisplay.textContent = `${Math.floor(distance)}m`;
+  updateWindDisplay(replayFrames[tick].wind);
+  updateReplayControls();
+}
+
+function updateReplayControls() {
+  replayScrub.value = String(replayTick);
+  replayPlayBtn.textContent = replayPlaying ? "Pause" : "Play";
+  replayTimeDisplay.textContent = `${(replayTick * PHYSICS_STEP).toFixed(1)}s`;
+}
+
+function toggleReplayPlayback() {
+  // Play from the start again once the end is reached
+  if (!replayPlaying && replayTick >= replayFrames.length - 1) {
+    replayTime = 0;
+    replayTick = 0;
+  }
+  replayPlaying = !replayPlaying;
+  updateReplayControls();
+}
+
+function exitReplay() {
+  if (gameState !== "replay") return;
+
+  gameState = "crashed";
+  replayPlaying = false;
+  activeReplay = null;
+  replayFrames = [];
+  applyWeather(getSeedWeather());
+  updatePlaneVisuals();
+
+  replayControls.classList.add("hidden");
+  hudElement.classList.add("hidden");
+  crashOverlay.classList.remove("hidden");
+}
+
+function exportReplay() {
+  if (!lastReplay) return;
+
+  const blob = new Blob([serializeReplay(lastReplay)], {
+    type: "application/json",
+  });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `slingshot-replay-${lastReplay.worldSeed}-${Math.floor(lastReplay.result.distance)}m.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+async function importReplay(file: File) {
+  try {
+    const replay = parseReplay(await file.text());
+    lastReplay = replay;
+    replayBtn.disabled = false;
+    replayExportBtn.disabled = false;
+    showReplayMessage(
+      `Loaded replay: seed ${replay.worldSeed}, ${Math.floor(replay.result.distance)}m`,
+    );
+    startReplay(replay);
+  } catch (error) {
+    console.error("[importReplay] Failed to load replay", error);
+    showReplayMessage(
+      error instanceof Error ? error.message : "Could not load replay",
+    );
+  }
+}
+
+function showReplayMessage(message: string) {
+  replayMessage.textContent = message;
+  replayMessage.classList.toggle("hidden", !message);
+}
+
 function resetGame() {
   console.log("[resetGame] START", {
     currentCheckpoint,
@@ -1369,6 +3184,8 @@ function resetGame() {
   });
 
   gameState = "ready";
+  paused = false;
+  pauseMenu.classList.add("hidden");
   distance = 0;
   highestDistanceThisRun = 0;
   startingZ = 0;
@@ -1386,10 +3203,14 @@ function resetGame() {
   });
 
   // Reset plane
+  repairPlane();
   resetPlanePosition();
   plane.rotation.set(0, 0, 0);
-  velocity.set(0, 0, 0);
-  angularVelocity.set(0, 0, 0);
+  flight = null;
+  previousFlight = null;
+
+  // Stand knocked-over people and animals back up for the next run
+  if (worldDisturbed) applyWorldSeed(worldSeed);
 
   console.log("[resetGame] After plane reset", {
     planePositionZ: plane.position.z,
@@ -1404,6 +3225,9 @@ function resetGame() {
   crashOverlay.classList.add("hidden");
   launchInstructions.classList.remove("hidden");
   checkpointSelector.classList.remove("hidden");
+  seedPanel.classList.remove("hidden");
+  weatherPanel.classList.remove("hidden");
+  loadoutPanel.classList.remove("hidden");
   updateCheckpointUI();
 
   // Reset victory overlay text if needed
@@ -1430,50 +3254,147 @@ function resetPlanePosition() {
   );
   pullDistance = 0;
   updateRubberBands();
+  hideTrajectory();
 }
 
 function onWindowResize() {
   camera.aspect = window.innerWidth / window.innerHeight;
   camera.updateProjectionMatrix();
   renderer.setSize(window.innerWidth, window.innerHeight);
+  touchControls.classList.toggle(
+    "portrait",
+    window.innerHeight > window.innerWidth,
+  );
+  updateStickKnob();
 }
 
 function updateCoinDisplay() {
   coinCount.textContent = coins.toString();
 }
 
-function saveProgress() {
-  const saveData = {
+function getCurrentSave(): SaveData {
+  return {
+    version: SAVE_VERSION,
     coins,
-    highestDistance: Math.max(distance, getSavedHighestDistance()),
+    highestDistance: savedHighestDistance,
     upgrades: { ...upgrades },
+    equipped: { ...equipped },
+    loadouts: loadouts.map((loadout) => ({
+      name: loadout.name,
+      upgrades: { ...loadout.upgrades },
+    })),
     checkpoints: { ...checkpoints },
+    bindings: cloneBindings(bindings),
+    boosterMode,
+    cameraMode: cameraRig.mode,
   };
-  localStorage.setItem("slingshotFlyer", JSON.stringify(saveData));
+}
+
+function applySaveData(save: SaveData) {
+  coins = save.coins;
+  savedHighestDistance = save.highestDistance;
+  Object.assign(upgrades, save.upgrades);
+  Object.assign(equipped, save.equipped);
+  loadouts.splice(0, loadouts.length, ...save.loadouts);
+  Object.assign(checkpoints, save.checkpoints);
+  bindings = cloneBindings(save.bindings);
+  boosterMode = save.boosterMode;
+  cameraRig.mode = save.cameraMode;
+}
+
+function saveProgress() {
+  writeSave(getCurrentSave());
 }
 
 function loadProgress() {
-  const saved = localStorage.getItem("slingshotFlyer");
-  if (saved) {
-    const data = JSON.parse(saved);
-    coins = data.coins || 0;
-    if (data.upgrades) {
-      Object.assign(upgrades, data.upgrades);
-    }
-    if (data.checkpoints) {
-      Object.assign(checkpoints, data.checkpoints);
-    }
-  }
+  const { save, recoveryMessage } = loadSave();
+  applySaveData(save);
   updateCheckpointUI();
+  updateLoadoutUI();
+  updateControlsHint();
+
+  if (recoveryMessage) {
+    saveNoticeText.textContent = recoveryMessage;
+    saveNotice.classList.remove("hidden");
+  }
+}
+
+function exportSaveFile() {
+  const blob = new Blob([serializeSave(getCurrentSave())], {
+    type: "application/json",
+  });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `slingshot-save-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
 }
 
-function getSavedHighestDistance(): number {
-  const saved = localStorage.getItem("slingshotFlyer");
-  if (saved) {
-    const data = JSON.parse(saved);
-    return data.highestDistance || 0;
+async function copySaveCode() {
+  const code = encodeSaveCode(getCurrentSave());
+  saveCodeInput.value = code;
+  try {
+    await navigator.clipboard.writeText(code);
+    showSaveTransferMessage("Save code copied to the clipboard");
+  } catch {
+    // Clipboard access can be denied; the code is still in the field
+    saveCodeInput.select();
+    showSaveTransferMessage("Copy the save code from the field above");
   }
-  return 0;
+}
+
+async function importSaveFile(file: File) {
+  try {
+    previewImport(parseSaveFile(await file.text()));
+  } catch (error) {
+    console.error("[importSaveFile] Failed to load save", error);
+    showSaveTransferMessage(
+      error instanceof Error ? error.message : "Could not load save file",
+    );
+  }
+}
+
+// Show what an import would change and wait for confirmation; null cancels
+function previewImport(save: SaveData | null) {
+  pendingImport = save;
+  saveImportDiff.innerHTML = "";
+  saveImportConfirm.classList.toggle("hidden", !save);
+  showSaveTransferMessage("");
+  if (!save) return;
+
+  const changes = describeSaveChanges(getCurrentSave(), save);
+  if (changes.length === 0) {
+    previewImport(null);
+    showSaveTransferMessage("That save matches your current progress");
+    return;
+  }
+  for (const change of changes) {
+    const item = document.createElement("li");
+    item.textContent = change;
+    saveImportDiff.appendChild(item);
+  }
+}
+
+function applyImport() {
+  if (!pendingImport) return;
+
+  applySaveData(pendingImport);
+  writeSave(getCurrentSave());
+
+  if (!checkpoints[currentCheckpoint]) selectCheckpoint("runway");
+  previewImport(null);
+  showSaveTransferMessage("Save imported");
+  updateControlsHint();
+  updateCoinDisplay();
+  updateCheckpointUI();
+  updateLoadoutUI();
+  renderUpgradeMenu();
+  updatePlaneVisuals();
+}
+
+function showSaveTransferMessage(message: string) {
+  saveTransferMessage.textContent = message;
+  saveTransferMessage.classList.toggle("hidden", !message);
 }
 
 function selectCheckpoint(checkpoint: keyof typeof checkpoints) {
@@ -1535,8 +3456,9 @@ function getCheckpointStartPosition(): number {
 }
 
 function openUpgradeMenu() {
-  if (gameState === "flying") return;
+  if (gameState === "flying" || gameState === "replay") return;
 
+  closeSettingsMenu();
   upgradeMenu.classList.remove("hidden");
   launchInstructions.classList.add("hidden");
   renderUpgradeMenu();
@@ -1548,6 +3470,8 @@ function openUpgradeMenu() {
 
 function closeUpgradeMenu() {
   upgradeMenu.classList.add("hidden");
+  previewImport(null);
+  respecPending = false;
   if (gameState === "ready") {
     launchInstructions.classList.remove("hidden");
   }
@@ -1557,36 +3481,155 @@ function closeUpgradeMenu() {
   playBtn.classList.add("active");
 }
 
+function openSettingsMenu() {
+  if ((gameState === "flying" && !paused) || gameState === "replay") return;
+
+  closeUpgradeMenu();
+  settingsMenu.classList.remove("hidden");
+  launchInstructions.classList.add("hidden");
+  showBindingsMessage("");
+  renderBindings();
+
+  // Update nav button states
+  settingsBtn.classList.add("active");
+  playBtn.classList.remove("active");
+}
+
+function closeSettingsMenu() {
+  settingsMenu.classList.add("hidden");
+  capturingBinding = null;
+  if (gameState === "ready" && upgradeMenu.classList.contains("hidden")) {
+    launchInstructions.classList.remove("hidden");
+  }
+
+  // Update nav button states
+  settingsBtn.classList.remove("active");
+  if (upgradeMenu.classList.contains("hidden")) {
+    playBtn.classList.add("active");
+  }
+  if (paused) pauseSettingsBtn.focus();
+}
+
+function getOpenMenu(): HTMLElement | null {
+  if (!upgradeMenu.classList.contains("hidden")) return upgradeMenu;
+  if (!settingsMenu.classList.contains("hidden")) return settingsMenu;
+  if (!pauseMenu.classList.contains("hidden")) return pauseMenu;
+  return null;
+}
+
+function closeMenus() {
+  closeUpgradeMenu();
+  closeSettingsMenu();
+}
+
+// One row per action with a button per key slot. Clicking a slot waits for
+// the next key press; clicking it again cancels.
+function renderBindings() {
+  bindingsList.innerHTML = "";
+
+  for (const action of Object.keys(ACTIONS) as Action[]) {
+    const row = document.createElement("div");
+    row.className = "binding-row";
+
+    const label = document.createElement("span");
+    label.className = "binding-label";
+    label.textContent = ACTIONS[action].label;
+    row.appendChild(label);
+
+    for (let slot = 0; slot < KEYS_PER_ACTION; slot++) {
+      const code = bindings[action][slot];
+      const capturing =
+        capturingBinding?.action === action && capturingBinding.slot === slot;
+      const slotBtn = document.createElement("button");
+      slotBtn.className = `binding-slot${capturing ? " capturing" : ""}`;
+      slotBtn.textContent = capturing
+        ? "Press a key..."
+        : code
+          ? describeKey(code)
+          : "-";
+      slotBtn.addEventListener("click", () => {
+        capturingBinding = capturing ? null : { action, slot };
+        showBindingsMessage("");
+        renderBindings();
+      });
+      row.appendChild(slotBtn);
+    }
+
+    bindingsList.appendChild(row);
+  }
+}
+
+// Backspace or Delete clears the slot; a key another action already uses is
+// refused so no key ever does two things
+function captureBinding(code: string) {
+  if (!capturingBinding) return;
+  const { action, slot } = capturingBinding;
+  capturingBinding = null;
+
+  if (code === "Backspace" || code === "Delete") {
+    setBindings(unbindKey(bindings, action, slot));
+  } else {
+    const result = bindKey(bindings, action, slot, code);
+    if ("conflict" in result) {
+      showBindingsMessage(
+        `${describeKey(code)} is already used for ${ACTIONS[result.conflict].label}`,
+      );
+    } else {
+      setBindings(result.bindings);
+    }
+  }
+  renderBindings();
+}
+
+function setBindings(next: typeof bindings) {
+  bindings = next;
+  heldKeys.clear();
+  updateControlsHint();
+  saveProgress();
+}
+
+function showBindingsMessage(message: string) {
+  bindingsMessage.textContent = message;
+  bindingsMessage.classList.toggle("hidden", !message);
+}
+
+function updateControlsHint() {
+  controlsHint.textContent = describeControls(bindings);
+}
+
 function renderUpgradeMenu() {
   upgradeGrid.innerHTML = "";
 
-  const upgradeOrder = [
-    "wings",
-    "slingshot",
-    "wheels",
-    "tail",
-    "aerodynamic",
-    "boosters",
-  ];
-
-  for (const key of upgradeOrder) {
+  // Cards follow the order upgrades are declared in upgradeData.ts
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
     const upgrade = UPGRADES[key];
-    const currentTier = upgrades[key as keyof typeof upgrades];
+    const currentTier = upgrades[key];
     const isMaxed = currentTier >= upgrade.maxTier;
     const nextTier = isMaxed ? null : upgrade.tiers[currentTier];
-    const requiresMet =
-      !upgrade.requires ||
-      upgrades[upgrade.requires as keyof typeof upgrades] > 0;
+    const requiresMet = !upgrade.requires || upgrades[upgrade.requires] > 0;
     const canAfford = nextTier ? coins >= nextTier.cost : false;
     const isLocked = !requiresMet;
 
     const card = document.createElement("div");
     card.className = `upgrade-card${isLocked ? " locked" : ""}${isMaxed ? " maxed" : ""}`;
 
-    // Tier pips
+    const refund = getRefundValue(key, currentTier);
+    const saleBlocker = getSaleBlocker(upgrades, key);
+    const equippedTier = equipped[key];
+    const canEquipMore =
+      equippedTier < currentTier &&
+      (!upgrade.requires || equipped[upgrade.requires] > 0);
+
+    // Tier pips; owned but unequipped tiers are dimmed
     let tierPips = "";
     for (let i = 0; i < upgrade.maxTier; i++) {
-      tierPips += `<div class="tier-pip${i < currentTier ? " filled" : ""}"></div>`;
+      const state =
+        i < equippedTier
+          ? " filled"
+          : i < currentTier
+            ? " filled unequipped"
+            : "";
+      tierPips += `<div class="tier-pip${state}"></div>`;
     }
 
     card.innerHTML = `
@@ -1602,6 +3645,24 @@ function renderUpgradeMenu() {
         </button>
       </div>
       ${isLocked ? `<div class="requires-note">Requires: ${UPGRADES[upgrade.requires!].name}</div>` : ""}
+      ${
+        currentTier > 0
+          ? `<div class="upgrade-owned">
+        <span class="equip-control">
+          Equipped
+          <button class="equip-btn" data-equip="${key}" data-delta="-1"
+                  ${equippedTier === 0 ? "disabled" : ""}>-</button>
+          ${equippedTier}/${currentTier}
+          <button class="equip-btn" data-equip="${key}" data-delta="1"
+                  ${canEquipMore ? "" : "disabled"}>+</button>
+        </span>
+        <button class="sell-btn" data-sell="${key}"
+                ${saleBlocker ? "disabled" : ""}>SELL +${refund}</button>
+      </div>
+      ${saleBlocker ? `<div class="requires-note">Needed by: ${UPGRADES[saleBlocker].name}</div>` : ""}`
+          : ""
+      }
+      ${key === "boosters" && currentTier > 0 ? renderBoosterModePicker() : ""}
     `;
 
     upgradeGrid.appendChild(card);
@@ -1613,13 +3674,67 @@ function renderUpgradeMenu() {
     .forEach((btn) => {
       btn.addEventListener("click", (e) => {
         const target = e.target as HTMLElement;
-        const upgradeKey = target.dataset.upgrade as keyof typeof upgrades;
+        const upgradeKey = target.dataset.upgrade as UpgradeKey;
         purchaseUpgrade(upgradeKey);
       });
     });
+  upgradeGrid.querySelectorAll(".sell-btn:not([disabled])").forEach((btn) => {
+    btn.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      sellUpgrade(target.dataset.sell as UpgradeKey);
+    });
+  });
+  upgradeGrid.querySelectorAll(".mode-btn").forEach((btn) => {
+    btn.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      boosterMode = target.dataset.mode as BoosterMode;
+      saveProgress();
+      renderUpgradeMenu();
+    });
+  });
+  upgradeGrid.querySelectorAll(".equip-btn:not([disabled])").forEach((btn) => {
+    btn.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const key = target.dataset.equip as UpgradeKey;
+      equipLevels({
+        ...equipped,
+        [key]: equipped[key] + Number(target.dataset.delta),
+      });
+    });
+  });
+
+  // Respec refunds every owned tier
+  const respecValue = (Object.keys(UPGRADES) as UpgradeKey[]).reduce(
+    (total, key) => {
+      for (let tier = 1; tier <= upgrades[key]; tier++) {
+        total += getRefundValue(key, tier);
+      }
+      return total;
+    },
+    0,
+  );
+  respecBtn.disabled = respecValue === 0;
+  respecBtn.textContent = respecPending
+    ? `Confirm respec (+${respecValue} coins)`
+    : `Respec (+${respecValue} coins)`;
+  respecBtn.classList.toggle("confirm", respecPending);
+
+  renderLoadoutList();
+}
+
+// Bursts fire the fixed boosts; Throttle burns a fuel tank while boost is held
+function renderBoosterModePicker(): string {
+  const buttons = (Object.keys(BOOSTER_MODES) as BoosterMode[])
+    .map(
+      (mode) =>
+        `<button class="mode-btn${mode === boosterMode ? " active" : ""}"
+                data-mode="${mode}">${BOOSTER_MODES[mode].label}</button>`,
+    )
+    .join("");
+  return `<div class="booster-mode">Mode ${buttons}</div>`;
 }
 
-function purchaseUpgrade(key: keyof typeof upgrades) {
+function purchaseUpgrade(key: UpgradeKey) {
   const upgrade = UPGRADES[key];
   const currentTier = upgrades[key];
 
@@ -1629,14 +3744,13 @@ function purchaseUpgrade(key: keyof typeof upgrades) {
   if (coins < cost) return;
 
   // Check requirements
-  if (upgrade.requires) {
-    const requiredUpgrade = upgrade.requires as keyof typeof upgrades;
-    if (upgrades[requiredUpgrade] === 0) return;
-  }
+  if (upgrade.requires && upgrades[upgrade.requires] === 0) return;
 
-  // Purchase!
+  // Purchase! New tiers go straight on the plane
   coins -= cost;
   upgrades[key]++;
+  equipped[key] = upgrades[key];
+  respecPending = false;
 
   saveProgress();
   updateCoinDisplay();
@@ -1646,7 +3760,148 @@ function purchaseUpgrade(key: keyof typeof upgrades) {
   updatePlaneVisuals();
 }
 
-function updatePlaneVisuals() {
+// Sell back the highest owned tier of an upgrade
+function sellUpgrade(key: UpgradeKey) {
+  const tier = upgrades[key];
+  if (tier === 0 || getSaleBlocker(upgrades, key)) return;
+
+  coins += getRefundValue(key, tier);
+  upgrades[key]--;
+  clampToOwned();
+  respecPending = false;
+
+  saveProgress();
+  updateCoinDisplay();
+  updateLoadoutUI();
+  renderUpgradeMenu();
+  updatePlaneVisuals();
+}
+
+// Sell every tier at once; needs a second click to go through
+function respec() {
+  if (!respecPending) {
+    respecPending = true;
+    renderUpgradeMenu();
+    return;
+  }
+
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    for (let tier = 1; tier <= upgrades[key]; tier++) {
+      coins += getRefundValue(key, tier);
+    }
+  }
+  Object.assign(upgrades, createUpgradeLevels());
+  clampToOwned();
+  respecPending = false;
+
+  saveProgress();
+  updateCoinDisplay();
+  updateLoadoutUI();
+  renderUpgradeMenu();
+  updatePlaneVisuals();
+}
+
+// Owned tiers went down: neither the plane nor any saved loadout may keep
+// the tiers that were sold
+function clampToOwned() {
+  Object.assign(equipped, clampLevels(equipped, upgrades));
+  for (const loadout of loadouts) {
+    loadout.upgrades = clampLevels(loadout.upgrades, upgrades);
+  }
+}
+
+// Fly with the given tiers, limited to what is owned
+function equipLevels(levels: UpgradeLevels) {
+  Object.assign(equipped, clampLevels(levels, upgrades));
+  saveProgress();
+  updateLoadoutUI();
+  if (!upgradeMenu.classList.contains("hidden")) renderUpgradeMenu();
+  updatePlaneVisuals();
+}
+
+function levelsMatch(a: UpgradeLevels, b: UpgradeLevels): boolean {
+  return (Object.keys(UPGRADES) as UpgradeKey[]).every(
+    (key) => a[key] === b[key],
+  );
+}
+
+// Launch screen picker: everything owned, each saved loadout, or "Custom"
+// when the equipped tiers match neither
+function updateLoadoutUI() {
+  loadoutSelect.innerHTML = "";
+  const addOption = (label: string, value: string) => {
+    const option = document.createElement("option");
+    option.textContent = label;
+    option.value = value;
+    loadoutSelect.appendChild(option);
+  };
+
+  addOption("All upgrades", "all");
+  loadouts.forEach((loadout, index) => addOption(loadout.name, String(index)));
+
+  const active = loadouts.findIndex((loadout) =>
+    levelsMatch(clampLevels(loadout.upgrades, upgrades), equipped),
+  );
+  if (levelsMatch(equipped, upgrades)) {
+    loadoutSelect.value = "all";
+  } else if (active >= 0) {
+    loadoutSelect.value = String(active);
+  } else {
+    addOption("Custom", "custom");
+    loadoutSelect.value = "custom";
+  }
+}
+
+function renderLoadoutList() {
+  loadoutList.innerHTML = "";
+  loadouts.forEach((loadout, index) => {
+    const item = document.createElement("li");
+    const name = document.createElement("span");
+    name.textContent = loadout.name;
+    const equipBtn = document.createElement("button");
+    equipBtn.className = "loadout-btn";
+    equipBtn.textContent = "Equip";
+    equipBtn.addEventListener("click", () => equipLevels(loadout.upgrades));
+    const deleteBtn = document.createElement("button");
+    deleteBtn.className = "loadout-btn";
+    deleteBtn.textContent = "Delete";
+    deleteBtn.addEventListener("click", () => {
+      loadouts.splice(index, 1);
+      saveProgress();
+      updateLoadoutUI();
+      renderUpgradeMenu();
+    });
+    item.append(name, equipBtn, deleteBtn);
+    loadoutList.appendChild(item);
+  });
+
+  loadoutSaveBtn.disabled = loadouts.length >= MAX_LOADOUTS;
+}
+
+// Store the equipped tiers under a name, replacing a loadout of the same name
+function saveLoadout() {
+  const name = loadoutNameInput.value.trim().slice(0, MAX_LOADOUT_NAME);
+  if (!name) return;
+
+  const existing = loadouts.find((loadout) => loadout.name === name);
+  if (existing) {
+    existing.upgrades = { ...equipped };
+  } else if (loadouts.length < MAX_LOADOUTS) {
+    loadouts.push({ name, upgrades: { ...equipped } });
+  } else {
+    return;
+  }
+
+  loadoutNameInput.value = "";
+  saveProgress();
+  updateLoadoutUI();
+  renderUpgradeMenu();
+}
+
+function updatePlaneVisuals(levels: UpgradeLevels = equipped) {
+  // Broken-off upgrade parts have to be back on the plane to be replaced
+  repairPlane();
+
   // Remove existing visual upgrades
   const toRemove: THREE.Object3D[] = [];
   plane.traverse((child) => {
@@ -1657,8 +3912,8 @@ function updatePlaneVisuals() {
   toRemove.forEach((child) => plane.remove(child));
 
   // Add wings if purchased
-  if (upgrades.wings > 0) {
-    const wingSpan = 1 + upgrades.wings * 0.2;
+  if (levels.wings > 0) {
+    const wingSpan = 1 + levels.wings * 0.2;
     const wingGeometry = new THREE.BoxGeometry(wingSpan * 2, 0.05, 0.8);
     const wingMaterial = new THREE.MeshLambertMaterial({ color: COLORS.plane });
     const wings = new THREE.Mesh(wingGeometry, wingMaterial);
@@ -1667,7 +3922,7 @@ function updatePlaneVisuals() {
   }
 
   // Add tail stabilizer if purchased
-  if (upgrades.tail > 0) {
+  if (levels.tail > 0) {
     const stabGeometry = new THREE.BoxGeometry(1, 0.05, 0.4);
     const stabMaterial = new THREE.MeshLambertMaterial({ color: COLORS.plane });
     const stabilizer = new THREE.Mesh(stabGeometry, stabMaterial);
@@ -1677,7 +3932,7 @@ function updatePlaneVisuals() {
   }
 
   // Add wheels if purchased
-  if (upgrades.wheels > 0) {
+  if (levels.wheels > 0) {
     const wheelGeometry = new THREE.CylinderGeometry(0.15, 0.15, 0.1, 8);
     const wheelMaterial = new THREE.MeshLambertMaterial({ color: 0x222222 });
 
@@ -1697,12 +3952,12 @@ function updatePlaneVisuals() {
   }
 
   // Add boosters if purchased
-  if (upgrades.boosters > 0) {
+  if (levels.boosters > 0) {
     const boosterGeometry = new THREE.CylinderGeometry(0.1, 0.15, 0.4, 8);
     const boosterMaterial = new THREE.MeshLambertMaterial({ color: 0x333333 });
 
     // Wing jets
-    if (upgrades.wings > 0) {
+    if (levels.wings > 0) {
       const leftBooster = new THREE.Mesh(boosterGeometry, boosterMaterial);
       leftBooster.rotation.x = Math.PI / 2;
       leftBooster.position.set(-0.8, -0.1, -0.2);
@@ -1717,7 +3972,7 @@ function updatePlaneVisuals() {
     }
 
     // Tier 10: rear rocket
-    if (upgrades.boosters >= 10) {
+    if (levels.boosters >= 10) {
       const rocketGeometry = new THREE.CylinderGeometry(0.2, 0.25, 0.6, 8);
       const rocketMaterial = new THREE.MeshLambertMaterial({ color: 0x444444 });
       const rocket = new THREE.Mesh(rocketGeometry, rocketMaterial);
@@ -1727,20 +3982,48 @@ function updatePlaneVisuals() {
       plane.add(rocket);
     }
   }
+
+  const rotation = plane.rotation.clone();
+  plane.rotation.set(0, 0, 0);
+  new THREE.Box3()
+    .setFromObject(plane)
+    .getSize(planeHalfExtents)
+    .multiplyScalar(0.5);
+  plane.rotation.copy(rotation);
 }
 
 let lastTime = 0;
 function animate(time = 0) {
   requestAnimationFrame(animate);
 
-  const deltaTime = Math.min((time - lastTime) / 1000, 0.1);
+  // Long stalls (tab switches, breakpoints) are dropped rather than
+  // replayed, so the fixed-step loop can't spiral
+  const deltaTime = Math.min((time - lastTime) / 1000, MAX_FRAME_TIME);
   lastTime = time;
 
-  updatePhysics(deltaTime);
-  updateBoosterEffect(deltaTime);
-
-  if (gameState === "flying") {
-    updateCamera();
+  updateGamepad();
+  updateChunks(plane.position.z);
+  if (!paused) {
+    const worldTime = deltaTime * updateTimeScale(deltaTime);
+    advancePhysics(worldTime);
+    updateRagdolls(worldTime);
+    updateWreck(worldTime);
+    updateReplay(deltaTime);
+    updateBoosterEffect(worldTime);
+    spinCoins(worldTime);
+    updateWindMotes(worldTime);
+    updateSky(worldTime);
+    updateRain(worldTime);
+  }
+  updateTouchControls();
+
+  updateCameraLabel(deltaTime);
+  if (
+    gameState === "flying" ||
+    gameState === "replay" ||
+    gameState === "crashed"
+  ) {
+    updateCamera(false, paused ? 0 : deltaTime);
   }
 
   renderer.render(scene, camera);
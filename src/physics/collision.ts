@@ -0,0 +1,207 @@
+// Collision broadphase, swept tests and responses. Plain data like the
+// flight sim, so Three.js Box3/Vector3 values can be passed straight in.
+import type { CollisionResponse } from "../config/collisionData.ts";
+import type { Vec3 } from "./flightSim.ts";
+
+export interface Aabb {
+  min: Vec3;
+  max: Vec3;
+}
+
+export interface SweepHit {
+  time: number; // 0 = start of the move, 1 = end
+  normal: Vec3; // Face of the obstacle that was hit
+}
+
+export interface CollisionResult {
+  crashed: boolean;
+  velocity: Vec3; // New plane velocity when the run carries on
+}
+
+export interface SpatialGrid<T> {
+  insert(item: T, bounds: Aabb): void;
+  remove(item: T): void;
+  query(bounds: Aabb): T[];
+}
+
+const AXES = ["x", "y", "z"] as const;
+
+// Uniform grid over the ground plane (x/z). Items keep the bounds they were
+// inserted with, so anything that moves belongs in a separate list instead.
+export function createSpatialGrid<T>(cellSize = 20): SpatialGrid<T> {
+  const cells = new Map<string, Set<T>>();
+  const itemCells = new Map<T, string[]>();
+
+  const cellRange = (bounds: Aabb) => ({
+    minX: Math.floor(bounds.min.x / cellSize),
+    maxX: Math.floor(bounds.max.x / cellSize),
+    minZ: Math.floor(bounds.min.z / cellSize),
+    maxZ: Math.floor(bounds.max.z / cellSize),
+  });
+
+  return {
+    insert(item, bounds) {
+      const range = cellRange(bounds);
+      const keys: string[] = [];
+      for (let x = range.minX; x <= range.maxX; x++) {
+        for (let z = range.minZ; z <= range.maxZ; z++) {
+          const key = `${x},${z}`;
+          let cell = cells.get(key);
+          if (!cell) {
+            cell = new Set();
+            cells.set(key, cell);
+          }
+          cell.add(item);
+          keys.push(key);
+        }
+      }
+      itemCells.set(item, keys);
+    },
+
+    remove(item) {
+      for (const key of itemCells.get(item) ?? []) {
+        const cell = cells.get(key);
+        cell?.delete(item);
+        if (cell && cell.size === 0) cells.delete(key);
+      }
+      itemCells.delete(item);
+    },
+
+    query(bounds) {
+      const range = cellRange(bounds);
+      const found = new Set<T>();
+      for (let x = range.minX; x <= range.maxX; x++) {
+        for (let z = range.minZ; z <= range.maxZ; z++) {
+          cells.get(`${x},${z}`)?.forEach((item) => found.add(item));
+        }
+      }
+      return [...found];
+    },
+  };
+}
+
+// Box covering a box of the given half extents moved from start to end
+export function getSweptBounds(
+  start: Vec3,
+  end: Vec3,
+  halfExtents: Vec3,
+): Aabb {
+  return {
+    min: {
+      x: Math.min(start.x, end.x) - halfExtents.x,
+      y: Math.min(start.y, end.y) - halfExtents.y,
+      z: Math.min(start.z, end.z) - halfExtents.z,
+    },
+    max: {
+      x: Math.max(start.x, end.x) + halfExtents.x,
+      y: Math.max(start.y, end.y) + halfExtents.y,
+      z: Math.max(start.z, end.z) + halfExtents.z,
+    },
+  };
+}
+
+// First contact of a moving box (center start -> end) against a static box,
+// using the slab method on the box grown by the mover's half extents. Catches
+// thin obstacles that a fast mover would otherwise skip between ticks.
+export function sweepAabb(
+  start: Vec3,
+  end: Vec3,
+  halfExtents: Vec3,
+  box: Aabb,
+): SweepHit | null {
+  let enter = 0;
+  let exit = 1;
+  let normal: Vec3 = { x: 0, y: 0, z: -1 }; // Already overlapping: push back
+
+  for (const axis of AXES) {
+    const min = box.min[axis] - halfExtents[axis];
+    const max = box.max[axis] + halfExtents[axis];
+    const delta = end[axis] - start[axis];
+
+    if (Math.abs(delta) < 1e-9) {
+      if (start[axis] < min || start[axis] > max) return null;
+      continue;
+    }
+
+    const t1 = (min - start[axis]) / delta;
+    const t2 = (max - start[axis]) / delta;
+    const near = Math.min(t1, t2);
+    const far = Math.max(t1, t2);
+
+    if (near > enter) {
+      enter = near;
+      normal = { x: 0, y: 0, z: 0 };
+      normal[axis] = delta > 0 ? -1 : 1;
+    }
+    exit = Math.min(exit, far);
+    if (enter > exit) return null;
+  }
+
+  return { time: enter, normal };
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function addScaled(a: Vec3, b: Vec3, scale: number): Vec3 {
+  return { x: a.x + b.x * scale, y: a.y + b.y * scale, z: a.z + b.z * scale };
+}
+
+// Work out what a contact does to the plane, from the obstacle's response,
+// the contact normal and the plane's velocity relative to the obstacle
+export function resolveCollision(
+  response: CollisionResponse,
+  velocity: Vec3,
+  normal: Vec3,
+  obstacleVelocity: Vec3 = { x: 0, y: 0, z: 0 },
+): CollisionResult {
+  const relative = addScaled(velocity, obstacleVelocity, -1);
+  const speed = Math.sqrt(dot(relative, relative));
+  const closing = dot(relative, normal); // Negative when moving into it
+
+  switch (response.kind) {
+    case "stop":
+      return { crashed: true, velocity };
+
+    case "deflect": {
+      // Angle between the path and the surface; 0 = skimming along it
+      const impactAngle =
+        speed > 0 ? Math.asin(Math.min(1, -closing / speed)) : 0;
+      if (impactAngle > response.maxGlanceAngle) {
+        return { crashed: true, velocity };
+      }
+      const sliding = addScaled(relative, normal, -closing);
+      return {
+        crashed: false,
+        velocity: addScaled(obstacleVelocity, sliding, response.speedRetained),
+      };
+    }
+
+    case "knockback": {
+      const slowed = addScaled(
+        obstacleVelocity,
+        relative,
+        1 - response.speedPenalty,
+      );
+      const shoved = addScaled(slowed, normal, response.knockback);
+      return {
+        crashed: false,
+        velocity: { ...shoved, y: shoved.y + response.knockback * 0.5 },
+      };
+    }
+
+    case "bounce": {
+      const reflected = addScaled(
+        relative,
+        normal,
+        -(1 + response.restitution) * Math.min(0, closing),
+      );
+      const bounced = addScaled(obstacleVelocity, reflected, 1);
+      return {
+        crashed: false,
+        velocity: { ...bounced, y: bounced.y + response.hop },
+      };
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// Crash wreckage. Broken-off plane parts are loose pieces stepped by the
+// ragdoll integrator with no constraints between them. Visual only.
+import type { Vec3 } from "./flightSim.ts";
+import type { Ragdoll } from "./ragdoll.ts";
+
+// Impact speeds that map to no damage and to the plane breaking apart
+const MIN_BREAK_SPEED = 10;
+const MAX_BREAK_SPEED = 60;
+const SCATTER_SPEED = 8;
+const RESTITUTION = 0.3; // Share of the speed into a wall that bounces back
+
+// 0 = gentle stop, 1 = the plane comes apart completely
+export function getCrashSeverity(velocity: Vec3): number {
+  const speed = Math.hypot(velocity.x, velocity.y, velocity.z);
+  const severity =
+    (speed - MIN_BREAK_SPEED) / (MAX_BREAK_SPEED - MIN_BREAK_SPEED);
+  return Math.min(1, Math.max(0, severity));
+}
+
+// Velocity the wreck leaves the impact with; bounces off the surface that was
+// hit when there is one
+export function getReboundVelocity(velocity: Vec3, normal?: Vec3): Vec3 {
+  if (!normal) return { ...velocity };
+  const closing =
+    velocity.x * normal.x + velocity.y * normal.y + velocity.z * normal.z;
+  if (closing >= 0) return { ...velocity };
+  const scale = -(1 + RESTITUTION) * closing;
+  return {
+    x: velocity.x + normal.x * scale,
+    y: velocity.y + normal.y * scale,
+    z: velocity.z + normal.z * scale,
+  };
+}
+
+// Pieces inherit the impact velocity plus a random scatter that grows with
+// severity; the first piece is the airframe and scatters least
+export function createDebris(
+  pieces: { position: Vec3; rotation: Vec3; radius: number }[],
+  velocity: Vec3,
+  severity: number,
+  dt: number,
+  random: () => number = Math.random,
+): Ragdoll {
+  const parts = pieces.map((piece, index) => {
+    const scatter = SCATTER_SPEED * severity * (index === 0 ? 0.25 : 1);
+    const spin = 2 + 12 * severity;
+    const pieceVelocity = {
+      x: velocity.x + (random() - 0.5) * 2 * scatter,
+      y: velocity.y + random() * scatter,
+      z: velocity.z + (random() - 0.5) * 2 * scatter,
+    };
+    return {
+      position: { ...piece.position },
+      previous: {
+        x: piece.position.x - pieceVelocity.x * dt,
+        y: piece.position.y - pieceVelocity.y * dt,
+        z: piece.position.z - pieceVelocity.z * dt,
+      },
+      radius: piece.radius,
+      rotation: { ...piece.rotation },
+      spin: {
+        x: (random() - 0.5) * spin,
+        y: (random() - 0.5) * spin,
+        z: (random() - 0.5) * spin,
+      },
+    };
+  });
+
+  return { parts, constraints: [], age: 0, restTime: 0 };
+}
@@ -0,0 +1,437 @@
+// Headless flight simulation. Pure functions over plain data - no DOM and
+// no Three.js - so flights can be stepped and balanced from Node.
+import {
+  GRAVITY,
+  BASE_DRAG,
+  BOUNCE_DAMPING,
+  TUMBLE_SLOWDOWN,
+  MAX_PULL_DISTANCE,
+  LAUNCH_POWER_MULTIPLIER,
+  MIN_LAUNCH_POWER,
+  MAX_LAUNCH_POWER,
+  PLANE_HEIGHT,
+  PHYSICS_STEP,
+  ZONES,
+} from "../config/constants.ts";
+import {
+  FUEL_BURN_CURVE,
+  FUEL_BURN_RATE,
+  THROTTLE_RATE,
+  THRUST_CURVE,
+  sampleThrottleCurve,
+  type BoosterMode,
+  type UpgradeModifiers,
+} from "../config/upgradeData.ts";
+import { WEATHER, type WeatherKey } from "../config/weatherData.ts";
+import { WIND_PUSH } from "../config/windData.ts";
+import { nextRandom } from "../utils/random.ts";
+import { CALM, getWind } from "./wind.ts";
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type FlightStatus = "flying" | "stopped" | "victory";
+
+export interface FlightState {
+  position: Vec3;
+  rotation: Vec3;
+  velocity: Vec3;
+  angularVelocity: Vec3;
+  startingZ: number;
+  distance: number; // Forward distance from startingZ, never negative
+  highestZ: number; // Furthest absolute Z reached this run
+  status: FlightStatus;
+  seed: number; // PRNG state for tumble noise, so runs are reproducible
+  windSeed: number | null; // null = still air
+  wind: Vec3; // Wind the plane felt on the last tick
+  dragScale: number; // Weather drag multiplier (rain makes the air heavier)
+  fuel: number; // Throttle booster fuel left (0 when boosting in bursts)
+  throttle: number; // 0-1, spools toward the boost input
+  tick: number;
+}
+
+// Control strengths from 0 (released) to 1 (full); keys give 0 or 1, sticks
+// anything between
+export interface FlightInput {
+  left: number;
+  right: number;
+  up: number;
+  down: number;
+  boost: number; // Throttle for continuous boosters
+}
+
+export interface LaunchParams {
+  startZ: number;
+  height: number; // Release height (top of the slingshot)
+  pullDistance: number;
+  launchAngle: number; // 0 = flat, 1 = steep
+  seed: number;
+  windSeed?: number; // Omitted by replays recorded before wind existed
+  weather?: WeatherKey; // Clear when omitted
+  boosterMode?: BoosterMode; // Discrete when omitted
+}
+
+export const NO_INPUT: FlightInput = {
+  left: 0,
+  right: 0,
+  up: 0,
+  down: 0,
+  boost: 0,
+};
+
+// Sanity limits carried over from the original in-scene physics
+const MAX_STEP = 0.1;
+const MAX_VELOCITY = 500;
+const MAX_LATERAL = 50;
+const VICTORY_Z = ZONES.forest.end;
+
+// Longest flight anything steps through in one go (ten minutes)
+export const MAX_FLIGHT_TICKS = (10 * 60) / PHYSICS_STEP;
+
+function clampAbs(value: number, limit: number): number {
+  return Math.abs(value) > limit ? Math.sign(value) * limit : value;
+}
+
+// Launch velocity for a given pull, including slingshot tier and power caps
+export function getLaunchVelocity(
+  pullDistance: number,
+  launchAngle: number,
+  modifiers: UpgradeModifiers,
+): Vec3 {
+  // Clamp pullDistance to valid range
+  const safePullDistance = Math.max(
+    0,
+    Math.min(MAX_PULL_DISTANCE, pullDistance),
+  );
+
+  const basePower = safePullDistance * LAUNCH_POWER_MULTIPLIER;
+  const power = Math.min(
+    MAX_LAUNCH_POWER,
+    Math.max(MIN_LAUNCH_POWER, basePower) * modifiers.power,
+  );
+
+  // Player-controlled angle maps to 15 to 65 degrees
+  const safeLaunchAngle = Math.max(0, Math.min(1, launchAngle));
+  const actualAngle = (15 + safeLaunchAngle * 50) * (Math.PI / 180);
+
+  const velY = Math.sin(actualAngle) * power;
+  const velZ = Math.cos(actualAngle) * power;
+
+  return {
+    x: 0,
+    y: isFinite(velY) ? velY : 10,
+    z: isFinite(velZ) ? velZ : 20,
+  };
+}
+
+export function createLaunchState(
+  params: LaunchParams,
+  modifiers: UpgradeModifiers,
+): FlightState {
+  const startZ = isFinite(params.startZ) ? params.startZ : 0;
+
+  // Minimal tumble at start - plane should fly cleanly initially
+  const tumbleMultiplier = modifiers.abilities.glide ? 0.1 : 0.5;
+  const [tumble, seed] = nextRandom(params.seed);
+
+  return {
+    position: { x: 0, y: params.height, z: startZ },
+    rotation: { x: 0, y: 0, z: 0 },
+    velocity: getLaunchVelocity(
+      params.pullDistance,
+      params.launchAngle,
+      modifiers,
+    ),
+    angularVelocity: { x: (tumble - 0.5) * tumbleMultiplier, y: 0, z: 0 },
+    startingZ: startZ,
+    distance: 0,
+    highestZ: 0,
+    status: "flying",
+    seed,
+    windSeed: params.windSeed ?? null,
+    wind: CALM,
+    dragScale: WEATHER[params.weather ?? "clear"].drag,
+    fuel: params.boosterMode === "continuous" ? modifiers.fuel : 0,
+    throttle: 0,
+    tick: 0,
+  };
+}
+
+// Boosters push forward and slightly upward
+const BOOST_LENGTH = Math.sqrt(0.3 * 0.3 + 1);
+const BOOST_DIRECTION = { y: 0.3 / BOOST_LENGTH, z: 1 / BOOST_LENGTH };
+
+// One-shot booster impulse
+export function applyBoost(
+  state: FlightState,
+  boostPower: number,
+): FlightState {
+  return {
+    ...state,
+    velocity: {
+      x: state.velocity.x,
+      y: state.velocity.y + BOOST_DIRECTION.y * boostPower,
+      z: state.velocity.z + BOOST_DIRECTION.z * boostPower,
+    },
+  };
+}
+
+export function step(
+  state: FlightState,
+  input: FlightInput,
+  modifiers: UpgradeModifiers,
+  deltaTime: number,
+): FlightState {
+  if (state.status !== "flying") return state;
+
+  const dt = Math.min(deltaTime, MAX_STEP);
+  const position = { ...state.position };
+  const rotation = { ...state.rotation };
+  const velocity = { ...state.velocity };
+  const angularVelocity = { ...state.angularVelocity };
+  let seed = state.seed;
+
+  // SANITY CHECK: invalid or runaway positions
+  if (!isFinite(position.z)) {
+    position.z = state.startingZ;
+    velocity.x = velocity.y = velocity.z = 0;
+  }
+  if (position.z > 10000) {
+    position.z = Math.min(position.z, 6500); // Just past victory
+  }
+
+  // SANITY CHECK: Clamp velocity to prevent teleportation
+  velocity.x = clampAbs(velocity.x, MAX_VELOCITY);
+  velocity.y = clampAbs(velocity.y, MAX_VELOCITY);
+  velocity.z = clampAbs(velocity.z, MAX_VELOCITY);
+
+  const { glide, roll } = modifiers.abilities;
+
+  // Drag and lift work on airspeed - velocity relative to the wind. A plane
+  // on the ground is out of it.
+  const airborne = position.y > PLANE_HEIGHT / 2 + 0.1;
+  const wind =
+    state.windSeed === null || !airborne
+      ? CALM
+      : getWind(state.windSeed, position.z, state.tick * dt);
+
+  // Apply player controls; forces scale with how hard each is held
+  const baseControl = 0.5; // Minimal nudge without upgrades
+  const lateralControl = baseControl + modifiers.control * 20;
+
+  if (input.left > 0) {
+    velocity.x += lateralControl * input.left * dt;
+    rotation.z = Math.max(rotation.z - 2 * dt, -0.3);
+  }
+  if (input.right > 0) {
+    velocity.x -= lateralControl * input.right * dt;
+    rotation.z = Math.min(rotation.z + 2 * dt, 0.3);
+  }
+
+  // Up/Down pitch control (needs something to glide on)
+  if (glide && modifiers.pitch > 0) {
+    const pitchControl = modifiers.pitch * 15;
+    if (input.up > 0) {
+      velocity.y += pitchControl * input.up * dt;
+      rotation.x = Math.max(rotation.x - dt, -0.5);
+    }
+    if (input.down > 0) {
+      velocity.y -= pitchControl * input.down * dt * 0.5;
+      rotation.x = Math.min(rotation.x + dt, 0.5);
+    }
+  }
+
+  // Throttle boosting: the engine spools toward the boost input while there
+  // is fuel and pushes along the same line as a one-shot boost
+  const targetThrottle = state.fuel > 0 ? input.boost : 0;
+  const throttle =
+    targetThrottle > state.throttle
+      ? Math.min(targetThrottle, state.throttle + THROTTLE_RATE * dt)
+      : Math.max(targetThrottle, state.throttle - THROTTLE_RATE * dt);
+  let fuel = state.fuel;
+  if (throttle > 0) {
+    const thrust =
+      modifiers.thrust * sampleThrottleCurve(THRUST_CURVE, throttle);
+    velocity.y += BOOST_DIRECTION.y * thrust * dt;
+    velocity.z += BOOST_DIRECTION.z * thrust * dt;
+    fuel = Math.max(
+      0,
+      fuel -
+        FUEL_BURN_RATE * sampleThrottleCurve(FUEL_BURN_CURVE, throttle) * dt,
+    );
+  }
+
+  // Apply gravity
+  velocity.y += GRAVITY * dt;
+
+  // Wind shoves the plane directly (thermals lift it, gusts push it sideways)
+  velocity.x += wind.x * WIND_PUSH * dt;
+  velocity.y += wind.y * WIND_PUSH * dt;
+  velocity.z += wind.z * WIND_PUSH * dt;
+
+  // Apply lift (if has wings and moving forward through the air)
+  const airspeedZ = velocity.z - wind.z;
+  if (glide && airspeedZ > 5) {
+    velocity.y += modifiers.lift * airspeedZ * 0.5 * dt;
+  }
+
+  // Apply drag (reduced by aerodynamic upgrade); it slows the plane toward
+  // the wind's speed rather than toward standstill
+  const effectiveDrag =
+    BASE_DRAG * (1 - modifiers.dragReduction) * state.dragScale;
+  const air = {
+    x: velocity.x - wind.x,
+    y: velocity.y - wind.y,
+    z: velocity.z - wind.z,
+  };
+  const speed = Math.hypot(air.x, air.y, air.z);
+  if (speed > 0) {
+    // Clamp the multiplier so high speeds never reverse velocity
+    const dragMultiplier = Math.max(
+      0.1,
+      1 - speed * speed * effectiveDrag * dt,
+    );
+    velocity.x = wind.x + air.x * dragMultiplier;
+    velocity.y = wind.y + air.y * dragMultiplier;
+    velocity.z = wind.z + air.z * dragMultiplier;
+  }
+
+  // Update position, keeping the plane on screen laterally
+  position.x += velocity.x * dt;
+  position.y += velocity.y * dt;
+  position.z += velocity.z * dt;
+  // Hitting the edge stops the sideways drift too, or a plane pressed
+  // against it would never come to rest
+  if (Math.abs(position.x) > MAX_LATERAL) {
+    position.x = Math.sign(position.x) * MAX_LATERAL;
+    if (velocity.x * position.x > 0) velocity.x = 0;
+  }
+
+  // Update rotation (tumbling) - reduced if has wings
+  if (!glide) {
+    rotation.x += angularVelocity.x * dt;
+    rotation.z += angularVelocity.z * dt;
+  } else {
+    // With wings, slowly stabilize
+    angularVelocity.x *= 0.95;
+    angularVelocity.y *= 0.95;
+    angularVelocity.z *= 0.95;
+    rotation.x += angularVelocity.x * dt * 0.3;
+    // Gradually level out roll when not turning
+    if (input.left === 0 && input.right === 0) {
+      rotation.z *= 0.95;
+    }
+  }
+
+  // Ground collision
+  const groundY = PLANE_HEIGHT / 2;
+  if (position.y <= groundY) {
+    position.y = groundY;
+
+    if (velocity.y < -1) {
+      velocity.y = -velocity.y * BOUNCE_DAMPING;
+
+      if (roll) {
+        // Wheels: smoother landing, less speed loss
+        velocity.z *= modifiers.friction;
+        angularVelocity.x = angularVelocity.y = angularVelocity.z = 0;
+        rotation.x = 0;
+        rotation.z = 0;
+      } else {
+        // No wheels: tumble and lose more speed
+        velocity.z *= TUMBLE_SLOWDOWN;
+        const [tumble, nextSeed] = nextRandom(seed);
+        seed = nextSeed;
+        angularVelocity.x += (tumble - 0.5) * 3;
+      }
+    } else {
+      velocity.y = 0;
+      // Ground friction - wheels roll nicely
+      velocity.z *= roll ? 0.995 : 0.98;
+      // and sideways slides (crosswind landings, glancing hits) die out
+      velocity.x *= 0.98;
+    }
+  }
+
+  let status: FlightStatus = "flying";
+  if (position.z >= VICTORY_Z) {
+    status = "victory";
+  } else if (
+    Math.hypot(velocity.x, velocity.y, velocity.z) < 0.5 &&
+    position.y <= groundY + 0.1
+  ) {
+    status = "stopped";
+  }
+
+  return {
+    position,
+    rotation,
+    velocity,
+    angularVelocity,
+    startingZ: state.startingZ,
+    distance: Math.max(0, position.z - state.startingZ),
+    highestZ: Math.max(state.highestZ, position.z),
+    status,
+    seed,
+    windSeed: state.windSeed,
+    wind,
+    dragScale: state.dragScale,
+    fuel,
+    throttle,
+    tick: state.tick + 1,
+  };
+}
+
+// Pose between two ticks, for rendering between physics steps
+export function interpolatePose(
+  previous: FlightState,
+  current: FlightState,
+  alpha: number,
+): { position: Vec3; rotation: Vec3 } {
+  const lerp = (a: Vec3, b: Vec3): Vec3 => ({
+    x: a.x + (b.x - a.x) * alpha,
+    y: a.y + (b.y - a.y) * alpha,
+    z: a.z + (b.z - a.z) * alpha,
+  });
+  return {
+    position: lerp(previous.position, current.position),
+    rotation: lerp(previous.rotation, current.rotation),
+  };
+}
+
+// Hands-off flight from launch to the first touch of the ground, for the
+// aiming arc. Obstacles are ignored; the last point is the landing spot.
+export function predictTrajectory(
+  params: LaunchParams,
+  modifiers: UpgradeModifiers,
+  deltaTime = PHYSICS_STEP,
+  maxTicks = 30 / PHYSICS_STEP,
+): FlightState[] {
+  const groundY = PLANE_HEIGHT / 2;
+  let state = createLaunchState(params, modifiers);
+  const states = [state];
+  while (state.status === "flying" && state.tick < maxTicks) {
+    state = step(state, NO_INPUT, modifiers, deltaTime);
+    states.push(state);
+    if (state.position.y <= groundY) break;
+  }
+  return states;
+}
+
+// Run a whole flight to completion, e.g. for balancing scripts
+export function simulateFlight(
+  params: LaunchParams,
+  modifiers: UpgradeModifiers,
+  getInput: (state: FlightState) => FlightInput = () => NO_INPUT,
+  deltaTime = PHYSICS_STEP,
+  maxTicks = MAX_FLIGHT_TICKS,
+): FlightState {
+  let state = createLaunchState(params, modifiers);
+  while (state.status === "flying" && state.tick < maxTicks) {
+    state = step(state, getInput(state), modifiers, deltaTime);
+  }
+  return state;
+}
@@ -0,0 +1,160 @@
+// Lightweight ragdolls for people and animals. Each body part is a Verlet
+// particle with a spin, held to its neighbours by distance constraints. Visual
+// only - nothing here feeds back into the flight simulation.
+import { GRAVITY } from "../config/constants.ts";
+import type { Vec3 } from "./flightSim.ts";
+
+export interface RagdollPart {
+  position: Vec3;
+  previous: Vec3; // Position last step; velocity is implied by the difference
+  radius: number;
+  rotation: Vec3;
+  spin: Vec3; // Radians per second
+}
+
+export interface RagdollConstraint {
+  a: number;
+  b: number;
+  length: number;
+}
+
+export interface Ragdoll {
+  parts: RagdollPart[];
+  constraints: RagdollConstraint[];
+  age: number;
+  restTime: number; // How long every part has been still
+}
+
+const CONSTRAINT_ITERATIONS = 4;
+const AIR_DAMPING = 0.995;
+const GROUND_FRICTION = 0.8;
+const GROUND_BOUNCE = 0.3;
+const REST_SPEED = 0.3;
+const CLEANUP_DELAY = 4; // Seconds a body lies still before it is removed
+const MAX_AGE = 15; // Bodies that never settle (e.g. balanced on a roof)
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+// Part 0 is the core (torso); every part links to it and to its nearest
+// neighbour, which keeps limbs attached but floppy
+export function createRagdoll(
+  parts: { position: Vec3; rotation: Vec3; radius: number }[],
+  velocity: Vec3,
+  dt: number,
+  random: () => number = Math.random,
+): Ragdoll {
+  const ragdollParts = parts.map((part) => {
+    // Each piece picks up a slightly different share of the hit
+    const share = 0.8 + random() * 0.4;
+    return {
+      position: { ...part.position },
+      previous: {
+        x: part.position.x - velocity.x * share * dt,
+        y: part.position.y - velocity.y * share * dt,
+        z: part.position.z - velocity.z * share * dt,
+      },
+      radius: part.radius,
+      rotation: { ...part.rotation },
+      spin: {
+        x: (random() - 0.5) * 20,
+        y: (random() - 0.5) * 10,
+        z: (random() - 0.5) * 20,
+      },
+    };
+  });
+
+  const links = new Set<string>();
+  const constraints: RagdollConstraint[] = [];
+  const link = (a: number, b: number) => {
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (a === b || links.has(key)) return;
+    links.add(key);
+    constraints.push({
+      a,
+      b,
+      length: distance(parts[a].position, parts[b].position),
+    });
+  };
+
+  parts.forEach((part, i) => {
+    link(0, i);
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    parts.forEach((other, j) => {
+      const d = distance(part.position, other.position);
+      if (j !== i && d < nearestDistance) {
+        nearest = j;
+        nearestDistance = d;
+      }
+    });
+    if (nearest >= 0) link(i, nearest);
+  });
+
+  return { parts: ragdollParts, constraints, age: 0, restTime: 0 };
+}
+
+export function stepRagdoll(ragdoll: Ragdoll, dt: number) {
+  ragdoll.age += dt;
+  let moving = false;
+
+  // Verlet integration under gravity
+  for (const part of ragdoll.parts) {
+    const { position, previous } = part;
+    const vx = (position.x - previous.x) * AIR_DAMPING;
+    const vy = (position.y - previous.y) * AIR_DAMPING;
+    const vz = (position.z - previous.z) * AIR_DAMPING;
+    part.previous = { ...position };
+    position.x += vx;
+    position.y += vy + GRAVITY * dt * dt;
+    position.z += vz;
+
+    part.rotation.x += part.spin.x * dt;
+    part.rotation.y += part.spin.y * dt;
+    part.rotation.z += part.spin.z * dt;
+  }
+
+  // Pull linked parts back to their rest distance
+  for (let i = 0; i < CONSTRAINT_ITERATIONS; i++) {
+    for (const { a, b, length } of ragdoll.constraints) {
+      const pa = ragdoll.parts[a].position;
+      const pb = ragdoll.parts[b].position;
+      const current = distance(pa, pb);
+      if (current === 0) continue;
+      const correction = (current - length) / current / 2;
+      const dx = (pb.x - pa.x) * correction;
+      const dy = (pb.y - pa.y) * correction;
+      const dz = (pb.z - pa.z) * correction;
+      pa.x += dx;
+      pa.y += dy;
+      pa.z += dz;
+      pb.x -= dx;
+      pb.y -= dy;
+      pb.z -= dz;
+    }
+  }
+
+  // Ground contact: bounce a little, scrub off speed and spin
+  for (const part of ragdoll.parts) {
+    const { position, previous } = part;
+    if (position.y < part.radius) {
+      const vy = position.y - previous.y;
+      position.y = part.radius;
+      previous.y = position.y + vy * GROUND_BOUNCE;
+      previous.x = position.x - (position.x - previous.x) * GROUND_FRICTION;
+      previous.z = position.z - (position.z - previous.z) * GROUND_FRICTION;
+      part.spin.x *= GROUND_FRICTION;
+      part.spin.y *= GROUND_FRICTION;
+      part.spin.z *= GROUND_FRICTION;
+    }
+
+    if (distance(position, previous) / dt > REST_SPEED) moving = true;
+  }
+
+  ragdoll.restTime = moving ? 0 : ragdoll.restTime + dt;
+}
+
+export function isRagdollExpired(ragdoll: Ragdoll): boolean {
+  return ragdoll.restTime > CLEANUP_DELAY || ragdoll.age > MAX_AGE;
+}
@@ -0,0 +1,75 @@
+// Wind field. Pure function of a seed, position along the course and time, so
+// a flight with the same wind seed always meets the same gusts.
+import { ZONES } from "../config/constants.ts";
+import {
+  WIND_BLEND_DISTANCE,
+  WIND_ZONES,
+  type WindProfile,
+} from "../config/windData.ts";
+import { nextRandom } from "../utils/random.ts";
+import type { Vec3 } from "./flightSim.ts";
+
+export const CALM: Vec3 = { x: 0, y: 0, z: 0 };
+
+const ZONE_KEYS = Object.keys(ZONES) as (keyof typeof ZONES)[];
+const TAU = Math.PI * 2;
+
+// Seed-derived phase offsets so worlds don't all gust in step
+function getPhases(seed: number): number[] {
+  const phases: number[] = [];
+  let state = seed;
+  for (let i = 0; i < 3; i++) {
+    const [value, next] = nextRandom(state);
+    phases.push(value * TAU);
+    state = next;
+  }
+  return phases;
+}
+
+function getProfileWind(
+  profile: WindProfile,
+  phases: number[],
+  z: number,
+  time: number,
+): Vec3 {
+  // Two out-of-step waves so gusts don't repeat on an obvious beat; the z
+  // term lets neighbouring blocks gust differently
+  const gust =
+    Math.sin((TAU * time) / profile.gustPeriod + phases[0] + z / 80) * 0.6 +
+    Math.sin((TAU * time) / (profile.gustPeriod * 0.37) + phases[1]) * 0.4;
+
+  // Updraft is strongest in the middle of each thermal and zero between them
+  const column = Math.sin((TAU * z) / profile.thermalSpacing + phases[2]);
+  const thermal = column > 0 ? column * column * profile.thermal : 0;
+
+  return {
+    x: profile.prevailing.x + gust * profile.gust,
+    y: profile.prevailing.y + thermal,
+    z: profile.prevailing.z + gust * profile.gust * 0.3,
+  };
+}
+
+export function getWind(seed: number, z: number, time: number): Vec3 {
+  const phases = getPhases(seed);
+  let index = ZONE_KEYS.findIndex((key) => z < ZONES[key].end);
+  if (index < 0) index = ZONE_KEYS.length - 1;
+
+  const key = ZONE_KEYS[index];
+  const wind = getProfileWind(WIND_ZONES[key], phases, z, time);
+  const into = z - ZONES[key].start;
+  if (index === 0 || into >= WIND_BLEND_DISTANCE) return wind;
+
+  // Just past a zone boundary: ease in from the previous zone's wind
+  const previous = getProfileWind(
+    WIND_ZONES[ZONE_KEYS[index - 1]],
+    phases,
+    z,
+    time,
+  );
+  const t = Math.max(0, into) / WIND_BLEND_DISTANCE;
+  return {
+    x: previous.x + (wind.x - previous.x) * t,
+    y: previous.y + (wind.y - previous.y) * t,
+    z: previous.z + (wind.z - previous.z) * t,
+  };
+}
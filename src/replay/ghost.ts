@@ -0,0 +1,147 @@
+// Personal-best ghosts. The best run from each checkpoint in each world seed
+// is kept as a sampled path of position + rotation over time.
+import type { FlightState, Vec3 } from "../physics/flightSim.ts";
+
+export interface GhostPath {
+  distance: number;
+  interval: number; // Seconds between samples
+  samples: number[]; // Flattened [px, py, pz, rx, ry, rz] per sample
+}
+
+export interface GhostPose {
+  position: Vec3;
+  rotation: Vec3;
+  finished: boolean; // Past the end of the recorded run
+}
+
+const GHOST_STORAGE_KEY = "slingshotFlyerGhosts";
+const SAMPLE_INTERVAL = 0.1; // seconds
+const MAX_STORED_GHOSTS = 24; // Keeps localStorage usage bounded
+const VALUES_PER_SAMPLE = 6;
+
+interface StoredGhost extends GhostPath {
+  savedAt: number;
+}
+
+function ghostKey(seed: string, checkpoint: string): string {
+  return `${seed}|${checkpoint}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Downsample per-tick flight states into a compact path
+export function createGhostPath(
+  frames: FlightState[],
+  tickSeconds: number,
+  distance: number,
+): GhostPath {
+  const ticksPerSample = Math.max(1, Math.round(SAMPLE_INTERVAL / tickSeconds));
+  const samples: number[] = [];
+
+  for (let i = 0; i < frames.length; i += ticksPerSample) {
+    const { position, rotation } = frames[i];
+    samples.push(
+      round(position.x),
+      round(position.y),
+      round(position.z),
+      round(rotation.x),
+      round(rotation.y),
+      round(rotation.z),
+    );
+  }
+
+  return { distance, interval: ticksPerSample * tickSeconds, samples };
+}
+
+export function sampleGhost(path: GhostPath, time: number): GhostPose {
+  const count = path.samples.length / VALUES_PER_SAMPLE;
+  const exact = Math.max(0, time / path.interval);
+  const index = Math.min(Math.floor(exact), count - 1);
+  const next = Math.min(index + 1, count - 1);
+  const alpha = index === next ? 0 : exact - index;
+
+  const value = (offset: number) => {
+    const a = path.samples[index * VALUES_PER_SAMPLE + offset];
+    const b = path.samples[next * VALUES_PER_SAMPLE + offset];
+    return a + (b - a) * alpha;
+  };
+
+  return {
+    position: { x: value(0), y: value(1), z: value(2) },
+    rotation: { x: value(3), y: value(4), z: value(5) },
+    finished: exact >= count - 1,
+  };
+}
+
+function readGhosts(): Record<string, StoredGhost> {
+  try {
+    const saved = localStorage.getItem(GHOST_STORAGE_KEY);
+    const data: unknown = saved ? JSON.parse(saved) : {};
+    return isRecord(data) ? (data as Record<string, StoredGhost>) : {};
+  } catch {
+    console.error("[ghost] Could not read stored ghosts, starting fresh");
+    return {};
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object";
+}
+
+// Stored ghosts come from localStorage, so every sample is checked before the
+// ghost plane is posed from it
+function isGhostPath(value: unknown): value is GhostPath {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.distance) &&
+    isFiniteNumber(value.interval) &&
+    value.interval > 0 &&
+    Array.isArray(value.samples) &&
+    value.samples.length >= VALUES_PER_SAMPLE &&
+    value.samples.length % VALUES_PER_SAMPLE === 0 &&
+    value.samples.every(isFiniteNumber)
+  );
+}
+
+export function loadGhost(seed: string, checkpoint: string): GhostPath | null {
+  const ghost = readGhosts()[ghostKey(seed, checkpoint)];
+  return isGhostPath(ghost) ? ghost : null;
+}
+
+// Store the path if it beats the current best; returns true when saved
+export function saveGhostIfBest(
+  seed: string,
+  checkpoint: string,
+  path: GhostPath,
+): boolean {
+  const ghosts = readGhosts();
+  const key = ghostKey(seed, checkpoint);
+  const existing = ghosts[key];
+  if (isGhostPath(existing) && existing.distance >= path.distance) {
+    return false;
+  }
+
+  ghosts[key] = { ...path, savedAt: Date.now() };
+
+  // Drop the oldest ghosts once over the limit
+  const keys = Object.keys(ghosts).sort(
+    (a, b) => (ghosts[b].savedAt || 0) - (ghosts[a].savedAt || 0),
+  );
+  for (const stale of keys.slice(MAX_STORED_GHOSTS)) {
+    delete ghosts[stale];
+  }
+
+  try {
+    localStorage.setItem(GHOST_STORAGE_KEY, JSON.stringify(ghosts));
+  } catch (error) {
+    console.error("[ghost] Could not store ghost", error);
+    return false;
+  }
+  return true;
+}
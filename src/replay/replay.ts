@@ -0,0 +1,396 @@
+// Run recording and replay. A replay stores the launch plus the per-tick input
+// stream; playback re-runs the deterministic flight simulation from it.
+import { PHYSICS_STEP } from "../config/constants.ts";
+import { WEATHER } from "../config/weatherData.ts";
+import {
+  BOOSTER_MODES,
+  UPGRADES,
+  getUpgradeModifiers,
+  type UpgradeKey,
+  type UpgradeLevels,
+} from "../config/upgradeData.ts";
+import {
+  applyBoost,
+  createLaunchState,
+  step,
+  MAX_FLIGHT_TICKS,
+  NO_INPUT,
+  type FlightInput,
+  type FlightState,
+  type LaunchParams,
+  type Vec3,
+} from "../physics/flightSim.ts";
+
+// v2 added impacts and the obstacle that ended the run; v3 made inputs
+// analog; v4 added the wind seed, v5 the weather and v6 the booster throttle
+export const REPLAY_VERSION = 6;
+
+export type ReplayOutcome = "crashed" | "victory";
+
+// Non-fatal obstacle hit: the state the collision response left the plane in
+export interface ReplayImpact {
+  tick: number; // Applied after this tick's step
+  position: Vec3;
+  velocity: Vec3;
+}
+
+export interface Replay {
+  version: number;
+  recordedAt: string; // ISO timestamp
+  worldSeed: string;
+  checkpoint: string;
+  physicsStep: number;
+  launch: LaunchParams;
+  upgrades: UpgradeLevels;
+  inputs: [packed: number, ticks: number][]; // Run-length encoded inputs
+  boosts: number[]; // Ticks at which a booster fired (before that tick's step)
+  impacts: ReplayImpact[];
+  result: {
+    outcome: ReplayOutcome;
+    distance: number;
+    ticks: number;
+    obstacle?: string; // What the plane crashed into, if anything
+  };
+}
+
+export interface ReplayRecorder {
+  worldSeed: string;
+  checkpoint: string;
+  launch: LaunchParams;
+  upgrades: UpgradeLevels;
+  inputs: number[]; // One packed input per tick
+  boosts: number[];
+  impacts: ReplayImpact[];
+}
+
+// Each control is stored as a 4-bit level (0-15) packed into one number
+const INPUT_LEVELS = 15;
+const INPUT_SHIFTS = { left: 0, right: 4, up: 8, down: 12, boost: 16 } as const;
+const INPUT_CONTROLS = Object.keys(INPUT_SHIFTS) as (keyof FlightInput)[];
+
+function toLevel(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * INPUT_LEVELS);
+}
+
+// Snap analog input to the levels a replay can hold. Live flights step with
+// the snapped input so playback sees exactly what the run saw.
+export function quantizeInput(input: FlightInput): FlightInput {
+  return decodeInput(encodeInput(input));
+}
+
+export function encodeInput(input: FlightInput): number {
+  let packed = 0;
+  for (const control of INPUT_CONTROLS) {
+    packed |= toLevel(input[control]) << INPUT_SHIFTS[control];
+  }
+  return packed;
+}
+
+export function decodeInput(packed: number): FlightInput {
+  const input = { ...NO_INPUT };
+  for (const control of INPUT_CONTROLS) {
+    input[control] = ((packed >> INPUT_SHIFTS[control]) & 0xf) / INPUT_LEVELS;
+  }
+  return input;
+}
+
+export function createRecorder(
+  worldSeed: string,
+  checkpoint: string,
+  launch: LaunchParams,
+  upgrades: UpgradeLevels,
+): ReplayRecorder {
+  return {
+    worldSeed,
+    checkpoint,
+    launch: { ...launch },
+    upgrades: { ...upgrades },
+    inputs: [],
+    boosts: [],
+    impacts: [],
+  };
+}
+
+export function recordTick(recorder: ReplayRecorder, input: FlightInput) {
+  recorder.inputs.push(encodeInput(input));
+}
+
+export function recordBoost(recorder: ReplayRecorder, tick: number) {
+  recorder.boosts.push(tick);
+}
+
+export function recordImpact(recorder: ReplayRecorder, state: FlightState) {
+  recorder.impacts.push({
+    tick: state.tick,
+    position: { ...state.position },
+    velocity: { ...state.velocity },
+  });
+}
+
+export function finishRecording(
+  recorder: ReplayRecorder,
+  outcome: ReplayOutcome,
+  distance: number,
+  obstacle?: string,
+): Replay {
+  const inputs: [number, number][] = [];
+  for (const packed of recorder.inputs) {
+    const last = inputs[inputs.length - 1];
+    if (last && last[0] === packed) {
+      last[1]++;
+    } else {
+      inputs.push([packed, 1]);
+    }
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    recordedAt: new Date().toISOString(),
+    worldSeed: recorder.worldSeed,
+    checkpoint: recorder.checkpoint,
+    physicsStep: PHYSICS_STEP,
+    launch: recorder.launch,
+    upgrades: recorder.upgrades,
+    inputs,
+    boosts: [...recorder.boosts],
+    impacts: [...recorder.impacts],
+    result: { outcome, distance, ticks: recorder.inputs.length, obstacle },
+  };
+}
+
+// Re-simulate a replay; returns the state after every tick (index 0 = launch)
+// up to the tick the flight ended on
+export function simulateReplay(replay: Replay): FlightState[] {
+  const modifiers = getUpgradeModifiers(replay.upgrades);
+  let state = createLaunchState(replay.launch, modifiers);
+  const frames = [state];
+  let boostIndex = 0;
+  let impactIndex = 0;
+
+  for (const [packed, ticks] of replay.inputs) {
+    const input = decodeInput(packed);
+    for (let i = 0; i < ticks && state.status === "flying"; i++) {
+      while (
+        boostIndex < replay.boosts.length &&
+        replay.boosts[boostIndex] <= state.tick
+      ) {
+        state = applyBoost(state, modifiers.boost);
+        boostIndex++;
+      }
+      state = step(state, input, modifiers, replay.physicsStep);
+      while (
+        impactIndex < replay.impacts.length &&
+        replay.impacts[impactIndex].tick <= state.tick
+      ) {
+        const impact = replay.impacts[impactIndex];
+        state = {
+          ...state,
+          position: { ...impact.position },
+          velocity: { ...impact.velocity },
+        };
+        impactIndex++;
+      }
+      frames.push(state);
+    }
+  }
+
+  return frames;
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+function isTickCount(value: unknown): value is number {
+  return isInteger(value) && value >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object";
+}
+
+function isKeyOf<T extends object>(value: unknown, table: T): value is keyof T {
+  return typeof value === "string" && Object.keys(table).includes(value);
+}
+
+function isVec3(value: unknown): value is Vec3 {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.x) &&
+    isFiniteNumber(value.y) &&
+    isFiniteNumber(value.z)
+  );
+}
+
+function isInputRun(run: unknown): run is [packed: number, ticks: number] {
+  return (
+    Array.isArray(run) &&
+    run.length === 2 &&
+    isTickCount(run[0]) &&
+    run[0] < 1 << 20 &&
+    isTickCount(run[1])
+  );
+}
+
+function isImpact(impact: unknown): impact is ReplayImpact {
+  return (
+    isRecord(impact) &&
+    isTickCount(impact.tick) &&
+    isVec3(impact.position) &&
+    isVec3(impact.velocity)
+  );
+}
+
+type ReplayData = Record<string, unknown>;
+
+// Older versions are upgraded in place before validation
+const MIGRATIONS: Record<number, (data: ReplayData) => ReplayData> = {
+  1: (data) => ({ ...data, version: 2, impacts: [] }),
+  // Boolean bitmasks (left 1, right 2, up 4, down 8) become full-strength levels
+  2: (data) => ({
+    ...data,
+    version: 3,
+    inputs: Array.isArray(data.inputs)
+      ? data.inputs.map((run: unknown) => {
+          if (!Array.isArray(run)) return run;
+          const [mask, ticks]: unknown[] = run;
+          if (!isTickCount(mask) || mask >= 16) return [mask, ticks];
+          const input = {
+            left: mask & 1 ? 1 : 0,
+            right: mask & 2 ? 1 : 0,
+            up: mask & 4 ? 1 : 0,
+            down: mask & 8 ? 1 : 0,
+            boost: 0,
+          };
+          return [encodeInput(input), ticks];
+        })
+      : data.inputs,
+  }),
+  // Flights before v4 had no wind; without a wind seed they replay in still air
+  3: (data) => ({ ...data, version: 4 }),
+  // Likewise, flights before v5 were all flown in clear weather
+  4: (data) => ({ ...data, version: 5 }),
+  // and flights before v6 boosted in bursts, with no throttle in their inputs
+  5: (data) => ({ ...data, version: 6 }),
+};
+
+// Parse and validate a replay file; throws with a readable message
+export function parseReplay(text: string): Replay {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+
+  if (!isRecord(parsed)) {
+    throw new Error("Replay file is empty");
+  }
+  let data = parsed;
+  while (
+    typeof data.version === "number" &&
+    data.version < REPLAY_VERSION &&
+    MIGRATIONS[data.version]
+  ) {
+    data = MIGRATIONS[data.version](data);
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (data.physicsStep !== PHYSICS_STEP) {
+    throw new Error("Replay was recorded with a different physics rate");
+  }
+  if (typeof data.worldSeed !== "string" || !data.worldSeed) {
+    throw new Error("Replay is missing its world seed");
+  }
+
+  const launch = data.launch;
+  if (
+    !isRecord(launch) ||
+    !isFiniteNumber(launch.startZ) ||
+    !isFiniteNumber(launch.height) ||
+    !isFiniteNumber(launch.pullDistance) ||
+    !isFiniteNumber(launch.launchAngle) ||
+    !isInteger(launch.seed) ||
+    (launch.windSeed !== undefined && !isInteger(launch.windSeed)) ||
+    (launch.weather !== undefined && !isKeyOf(launch.weather, WEATHER)) ||
+    (launch.boosterMode !== undefined &&
+      !isKeyOf(launch.boosterMode, BOOSTER_MODES))
+  ) {
+    throw new Error("Replay has invalid launch parameters");
+  }
+
+  const upgrades = {} as UpgradeLevels;
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    const tier = isRecord(data.upgrades) ? data.upgrades[key] : undefined;
+    if (!isTickCount(tier) || tier > UPGRADES[key].maxTier) {
+      throw new Error(`Replay has an invalid ${key} tier`);
+    }
+    upgrades[key] = tier;
+  }
+
+  const result = isRecord(data.result) ? data.result : {};
+  const { inputs, boosts, impacts } = data;
+  if (!Array.isArray(inputs) || !inputs.every(isInputRun)) {
+    throw new Error("Replay has an invalid input stream");
+  }
+  // Playback steps and keeps every tick, so an input stream longer than the
+  // flight it claims to be (or than any flight) is refused up front
+  const ticks = inputs.reduce((total, [, count]) => total + count, 0);
+  if (
+    ticks > MAX_FLIGHT_TICKS ||
+    (isTickCount(result.ticks) && ticks > result.ticks)
+  ) {
+    throw new Error("Replay input stream is too long");
+  }
+  if (!Array.isArray(boosts) || !boosts.every(isTickCount)) {
+    throw new Error("Replay has invalid booster activations");
+  }
+  if (!Array.isArray(impacts) || !impacts.every(isImpact)) {
+    throw new Error("Replay has invalid impacts");
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    recordedAt: typeof data.recordedAt === "string" ? data.recordedAt : "",
+    worldSeed: data.worldSeed,
+    checkpoint:
+      typeof data.checkpoint === "string" ? data.checkpoint : "runway",
+    physicsStep: PHYSICS_STEP,
+    launch: {
+      startZ: launch.startZ,
+      height: launch.height,
+      pullDistance: launch.pullDistance,
+      launchAngle: launch.launchAngle,
+      seed: launch.seed,
+      windSeed: launch.windSeed,
+      weather: launch.weather,
+      boosterMode: launch.boosterMode,
+    },
+    upgrades,
+    inputs: inputs.map(([packed, count]) => [packed, count]),
+    boosts: [...boosts].sort((a, b) => a - b),
+    impacts: impacts
+      .map((impact) => ({
+        tick: impact.tick,
+        position: { ...impact.position },
+        velocity: { ...impact.velocity },
+      }))
+      .sort((a, b) => a.tick - b.tick),
+    result: {
+      outcome: result.outcome === "victory" ? "victory" : "crashed",
+      distance: isFiniteNumber(result.distance) ? result.distance : 0,
+      ticks: isTickCount(result.ticks) ? result.ticks : 0,
+      obstacle:
+        typeof result.obstacle === "string" ? result.obstacle : undefined,
+    },
+  };
+}
@@ -0,0 +1,434 @@
+// Player progress in localStorage. Saves carry a schema version; older ones
+// are migrated forward and every load is validated, so a hand-edited or
+// truncated save can't put the game into an impossible state.
+import { ZONES } from "../config/constants.ts";
+import {
+  BOOSTER_MODES,
+  UPGRADES,
+  clampLevels,
+  createUpgradeLevels,
+  type BoosterMode,
+  type UpgradeKey,
+  type UpgradeLevels,
+} from "../config/upgradeData.ts";
+import {
+  ACTIONS,
+  KEYS_PER_ACTION,
+  bindingsMatch,
+  createDefaultBindings,
+  type Action,
+  type Bindings,
+} from "../input/bindings.ts";
+import { hashSeed } from "../utils/random.ts";
+import { CAMERA_MODES, type CameraMode } from "../world/camera.ts";
+
+// v1 was the unversioned blob written before validation existed; v3 added
+// equipped tiers and loadouts, v4 key bindings, v5 the booster mode and v6
+// the camera mode
+export const SAVE_VERSION = 6;
+
+export type CheckpointKey = keyof typeof ZONES;
+export type CheckpointUnlocks = Record<CheckpointKey, boolean>;
+
+// Named set of tiers to fly with; never more than the tiers owned
+export interface Loadout {
+  name: string;
+  upgrades: UpgradeLevels;
+}
+
+export interface SaveData {
+  version: number;
+  coins: number;
+  highestDistance: number;
+  upgrades: UpgradeLevels; // Tiers owned
+  equipped: UpgradeLevels; // Tiers flown with
+  loadouts: Loadout[];
+  checkpoints: CheckpointUnlocks;
+  bindings: Bindings;
+  boosterMode: BoosterMode;
+  cameraMode: CameraMode;
+}
+
+export interface LoadResult {
+  save: SaveData;
+  recoveryMessage?: string; // Set when a corrupt save was set aside
+}
+
+const SAVE_STORAGE_KEY = "slingshotFlyer";
+const BACKUP_STORAGE_KEY = "slingshotFlyerBackup";
+const CODE_PREFIX = "SF";
+// Save codes carry the v2 fields only (no loadouts or settings), so their
+// layout is versioned separately from the save. Decoding lays them over the
+// save they're imported into, which keeps everything else.
+const CODE_VERSION = 2;
+export const MAX_LOADOUTS = 8;
+export const MAX_LOADOUT_NAME = 24;
+
+export function createDefaultSave(): SaveData {
+  const checkpoints = {} as CheckpointUnlocks;
+  for (const key of Object.keys(ZONES) as CheckpointKey[]) {
+    checkpoints[key] = key === "runway";
+  }
+  return {
+    version: SAVE_VERSION,
+    coins: 0,
+    highestDistance: 0,
+    upgrades: createUpgradeLevels(),
+    equipped: createUpgradeLevels(),
+    loadouts: [],
+    checkpoints,
+    bindings: createDefaultBindings(),
+    boosterMode: "discrete",
+    cameraMode: "chase",
+  };
+}
+
+type SaveFields = Record<string, unknown>;
+
+// Older versions are upgraded in place before validation
+const MIGRATIONS: Record<number, (data: SaveFields) => SaveFields> = {
+  1: (data) => ({ ...data, version: 2 }),
+  // Everything owned starts out equipped
+  2: (data) => ({ ...data, version: 3, equipped: data.upgrades, loadouts: [] }),
+  3: (data) => ({ ...data, version: 4 }), // Missing bindings become defaults
+  4: (data) => ({ ...data, version: 5 }), // Boosters stay in burst mode
+  5: (data) => ({ ...data, version: 6 }), // and the camera on the chase view
+};
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+function isRecord(value: unknown): value is SaveFields {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isKeyOf<T extends object>(value: unknown, table: T): value is keyof T {
+  return typeof value === "string" && Object.keys(table).includes(value);
+}
+
+function isKeyCode(key: unknown): key is string {
+  return typeof key === "string" && /^\w+$/.test(key);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Tiers per upgrade, clamped to 0..maxTier; missing upgrades count as 0
+function validateLevels(value: unknown, label: string): UpgradeLevels {
+  if (!isRecord(value)) {
+    throw new Error(`Save has invalid ${label}`);
+  }
+  const levels = createUpgradeLevels();
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    const tier = value[key];
+    if (tier === undefined) continue;
+    if (!isFiniteNumber(tier)) {
+      throw new Error(`Save has an invalid ${key} tier in ${label}`);
+    }
+    levels[key] = clamp(Math.floor(tier), 0, UPGRADES[key].maxTier);
+  }
+  return levels;
+}
+
+// Keys per action. Actions missing from the save keep their defaults; extra
+// keys and keys already claimed by an earlier action are dropped.
+function validateBindings(value: unknown): Bindings {
+  if (!isRecord(value)) {
+    throw new Error("Save has invalid key bindings");
+  }
+  const bindings = createDefaultBindings();
+  const claimed = new Set<string>();
+  for (const action of Object.keys(ACTIONS) as Action[]) {
+    const keys = value[action];
+    if (keys === undefined) {
+      bindings[action] = bindings[action].filter((key) => !claimed.has(key));
+    } else if (Array.isArray(keys) && keys.every(isKeyCode)) {
+      bindings[action] = keys
+        .filter(
+          (key, index) => !claimed.has(key) && keys.indexOf(key) === index,
+        )
+        .slice(0, KEYS_PER_ACTION);
+    } else {
+      throw new Error(`Save has invalid ${action} key bindings`);
+    }
+    bindings[action].forEach((key) => claimed.add(key));
+  }
+  return bindings;
+}
+
+// Validate save data of any version; throws with a readable message when it
+// can't be trusted. Out-of-range numbers are clamped rather than rejected.
+export function validateSave(input: unknown): SaveData {
+  if (!isRecord(input)) {
+    throw new Error("Save is not an object");
+  }
+
+  let data: SaveFields = { version: 1, ...input };
+  while (
+    typeof data.version === "number" &&
+    data.version < SAVE_VERSION &&
+    MIGRATIONS[data.version]
+  ) {
+    data = MIGRATIONS[data.version](data);
+  }
+  if (data.version !== SAVE_VERSION) {
+    throw new Error(`Unsupported save version: ${data.version}`);
+  }
+
+  const save = createDefaultSave();
+
+  if (data.coins !== undefined) {
+    if (!isFiniteNumber(data.coins)) throw new Error("Save has invalid coins");
+    save.coins = Math.max(0, Math.floor(data.coins));
+  }
+  if (data.highestDistance !== undefined) {
+    if (!isFiniteNumber(data.highestDistance)) {
+      throw new Error("Save has an invalid highest distance");
+    }
+    save.highestDistance = Math.max(0, data.highestDistance);
+  }
+
+  if (data.upgrades !== undefined) {
+    save.upgrades = validateLevels(data.upgrades, "upgrades");
+  }
+  save.equipped =
+    data.equipped === undefined
+      ? { ...save.upgrades }
+      : clampLevels(validateLevels(data.equipped, "equipped"), save.upgrades);
+
+  if (data.loadouts !== undefined) {
+    if (!Array.isArray(data.loadouts)) {
+      throw new Error("Save has invalid loadouts");
+    }
+    const loadouts: unknown[] = data.loadouts.slice(0, MAX_LOADOUTS);
+    for (const loadout of loadouts) {
+      const fields = isRecord(loadout) ? loadout : {};
+      const name =
+        typeof fields.name === "string"
+          ? fields.name.trim().slice(0, MAX_LOADOUT_NAME)
+          : "";
+      if (!name) throw new Error("Save has a loadout without a name");
+      save.loadouts.push({
+        name,
+        upgrades: clampLevels(
+          validateLevels(fields.upgrades, `${name} loadout`),
+          save.upgrades,
+        ),
+      });
+    }
+  }
+
+  const { checkpoints } = data;
+  if (checkpoints !== undefined) {
+    if (!isRecord(checkpoints)) {
+      throw new Error("Save has invalid checkpoints");
+    }
+    for (const key of Object.keys(ZONES) as CheckpointKey[]) {
+      const unlocked = checkpoints[key];
+      if (unlocked === undefined) continue;
+      if (typeof unlocked !== "boolean") {
+        throw new Error(`Save has an invalid ${key} checkpoint`);
+      }
+      save.checkpoints[key] = unlocked || key === "runway";
+    }
+  }
+
+  if (data.bindings !== undefined) {
+    save.bindings = validateBindings(data.bindings);
+  }
+  if (data.boosterMode !== undefined) {
+    if (!isKeyOf(data.boosterMode, BOOSTER_MODES)) {
+      throw new Error("Save has an invalid booster mode");
+    }
+    save.boosterMode = data.boosterMode;
+  }
+  if (data.cameraMode !== undefined) {
+    if (!isKeyOf(data.cameraMode, CAMERA_MODES)) {
+      throw new Error("Save has an invalid camera mode");
+    }
+    save.cameraMode = data.cameraMode;
+  }
+
+  return save;
+}
+
+// Read the stored save. A save that fails to parse or validate is copied to a
+// backup key and replaced by a fresh one, with a message for the player.
+export function loadSave(): LoadResult {
+  let text: string | null;
+  try {
+    text = localStorage.getItem(SAVE_STORAGE_KEY);
+  } catch (error) {
+    console.error("[save] Could not read save", error);
+    return { save: createDefaultSave() };
+  }
+  if (text === null) return { save: createDefaultSave() };
+
+  try {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("Save is not valid JSON");
+    }
+    return { save: validateSave(data) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error("[save] Corrupt save, starting fresh:", reason);
+    let backedUp = true;
+    try {
+      localStorage.setItem(BACKUP_STORAGE_KEY, text);
+    } catch {
+      backedUp = false;
+    }
+    return {
+      save: createDefaultSave(),
+      recoveryMessage: backedUp
+        ? `Your saved progress could not be loaded (${reason}). It was backed up as "${BACKUP_STORAGE_KEY}" and a new save was started.`
+        : `Your saved progress could not be loaded (${reason}) and a new save was started.`,
+    };
+  }
+}
+
+export function writeSave(save: SaveData): boolean {
+  try {
+    localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.error("[save] Could not write save", error);
+    return false;
+  }
+  return true;
+}
+
+// Portable copies of a save, for moving progress between browsers or
+// reproducing a tester's state
+
+export function serializeSave(save: SaveData): string {
+  return JSON.stringify(save, null, 2);
+}
+
+// Parse and validate an exported save file; throws with a readable message
+export function parseSaveFile(text: string): SaveData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Save file is not valid JSON");
+  }
+  return validateSave(data);
+}
+
+function checksum(payload: string): string {
+  return hashSeed(payload).toString(36);
+}
+
+// Compact code: SF<version>.<base36 fields>.<checksum>. Fields are coins,
+// highest distance, each upgrade tier in UPGRADES order and a bitmask of
+// unlocked checkpoints.
+export function encodeSaveCode(save: SaveData): string {
+  let mask = 0;
+  (Object.keys(ZONES) as CheckpointKey[]).forEach((key, bit) => {
+    if (save.checkpoints[key]) mask |= 1 << bit;
+  });
+  const payload = [
+    save.coins,
+    Math.floor(save.highestDistance),
+    ...(Object.keys(UPGRADES) as UpgradeKey[]).map((key) => save.upgrades[key]),
+    mask,
+  ]
+    .map((value) => value.toString(36))
+    .join(".");
+  return `${CODE_PREFIX}${CODE_VERSION}.${payload}.${checksum(payload)}`;
+}
+
+export function decodeSaveCode(code: string, base: SaveData): SaveData {
+  const parts = code.trim().split(".");
+  const header = parts.shift() ?? "";
+  const sum = parts.pop();
+  const payload = parts.join(".");
+
+  if (!header.toUpperCase().startsWith(CODE_PREFIX) || !sum) {
+    throw new Error("That is not a save code");
+  }
+  if (checksum(payload) !== sum.toLowerCase()) {
+    throw new Error("Save code checksum does not match - check for typos");
+  }
+
+  const version = Number(header.slice(CODE_PREFIX.length));
+  const upgradeKeys = Object.keys(UPGRADES) as UpgradeKey[];
+  const values = parts.map((part) =>
+    /^[0-9a-z]+$/i.test(part) ? parseInt(part, 36) : NaN,
+  );
+  if (version !== CODE_VERSION || values.length !== upgradeKeys.length + 3) {
+    throw new Error(`Unsupported save code version: ${header}`);
+  }
+
+  const [coins, highestDistance, ...rest] = values;
+  const mask = rest.pop()!;
+  const checkpoints: Record<string, boolean> = {};
+  (Object.keys(ZONES) as CheckpointKey[]).forEach((key, bit) => {
+    checkpoints[key] = (mask & (1 << bit)) !== 0;
+  });
+  return validateSave({
+    ...base,
+    version: SAVE_VERSION,
+    coins,
+    highestDistance,
+    upgrades: Object.fromEntries(
+      upgradeKeys.map((key, index) => [key, rest[index]]),
+    ),
+    checkpoints,
+  });
+}
+
+// Human-readable list of what replacing one save with another changes
+export function describeSaveChanges(
+  current: SaveData,
+  incoming: SaveData,
+): string[] {
+  const changes: string[] = [];
+  if (current.coins !== incoming.coins) {
+    changes.push(`Coins: ${current.coins} → ${incoming.coins}`);
+  }
+  const currentBest = Math.floor(current.highestDistance);
+  const incomingBest = Math.floor(incoming.highestDistance);
+  if (currentBest !== incomingBest) {
+    changes.push(`Highest distance: ${currentBest}m → ${incomingBest}m`);
+  }
+  for (const key of Object.keys(UPGRADES) as UpgradeKey[]) {
+    if (current.upgrades[key] !== incoming.upgrades[key]) {
+      changes.push(
+        `${UPGRADES[key].name}: tier ${current.upgrades[key]} → ${incoming.upgrades[key]}`,
+      );
+    }
+  }
+  if (current.loadouts.length !== incoming.loadouts.length) {
+    changes.push(
+      `Loadouts: ${current.loadouts.length} → ${incoming.loadouts.length}`,
+    );
+  }
+  if (!bindingsMatch(current.bindings, incoming.bindings)) {
+    changes.push("Key bindings: replaced");
+  }
+  if (current.boosterMode !== incoming.boosterMode) {
+    changes.push(
+      `Booster mode: ${BOOSTER_MODES[current.boosterMode].label} → ${BOOSTER_MODES[incoming.boosterMode].label}`,
+    );
+  }
+  if (current.cameraMode !== incoming.cameraMode) {
+    changes.push(
+      `Camera: ${CAMERA_MODES[current.cameraMode].label} → ${CAMERA_MODES[incoming.cameraMode].label}`,
+    );
+  }
+  for (const key of Object.keys(ZONES) as CheckpointKey[]) {
+    if (current.checkpoints[key] !== incoming.checkpoints[key]) {
+      const state = (unlocked: boolean) => (unlocked ? "unlocked" : "locked");
+      changes.push(
+        `${key[0].toUpperCase()}${key.slice(1)} checkpoint: ${state(current.checkpoints[key])} → ${state(incoming.checkpoints[key])}`,
+      );
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,61 @@
+// Seeded pseudo-random numbers. Everything that shapes the world draws from
+// these instead of Math.random() so a seed always rebuilds the same course.
+
+export interface Random {
+  next(): number; // 0 (inclusive) to 1 (exclusive)
+  range(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+}
+
+// mulberry32 - returns [value in 0..1, next state]
+export function nextRandom(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = Math.imul(next ^ (next >>> 15), next | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+// FNV-1a, used to turn seed text (and sub-stream names) into a number
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createRandom(seed: number | string): Random {
+  let state = typeof seed === "string" ? hashSeed(seed) : seed | 0;
+
+  const next = () => {
+    const [value, nextState] = nextRandom(state);
+    state = nextState;
+    return value;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
+
+// Short, easy-to-share seed text
+export function generateSeed(): string {
+  return Math.floor(Math.random() * 36 ** 6)
+    .toString(36)
+    .padStart(6, "0")
+    .toUpperCase();
+}
+
+// Same seed for everyone on a given UTC calendar day, whatever their time zone
+export function getDailySeed(date = new Date()): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `DAILY-${date.getUTCFullYear()}-${month}-${day}`;
+}
+
+export function normalizeSeed(text: string): string {
+  return text.trim().toUpperCase().slice(0, 32);
+}
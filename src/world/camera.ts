@@ -0,0 +1,255 @@
+// Camera placement for each camera mode. Plain poses worked out from the
+// plane's pose; the scene eases its camera toward them. The rig carries the
+// little state the moving modes need (orbit angle, cinematic shot).
+import { CAMERA_LERP_SPEED, CAMERA_OFFSET } from "../config/constants.ts";
+import type { Vec3 } from "../physics/flightSim.ts";
+
+export const CAMERA_MODES = {
+  chase: { label: "Chase" },
+  side: { label: "Side view" },
+  cockpit: { label: "Cockpit" },
+  cinematic: { label: "Cinematic" },
+  orbit: { label: "Orbit" },
+} as const satisfies Record<string, { label: string }>;
+
+export type CameraMode = keyof typeof CAMERA_MODES;
+
+// Aiming always uses the plain chase view; once the flight is over every
+// mode circles the crash site
+export type CameraStage = "aiming" | "flying" | "settled";
+
+type CinematicShot = "chase" | "flyby" | "low" | "overhead" | "front";
+const CINEMATIC_SHOTS: CinematicShot[] = [
+  "chase",
+  "flyby",
+  "low",
+  "overhead",
+  "front",
+];
+
+export interface CameraRig {
+  mode: CameraMode;
+  heading: number; // Smoothed direction of travel, radians from +z toward +x
+  orbitAngle: number;
+  shot: CinematicShot;
+  shotTime: number;
+  anchor: Vec3 | null; // Fixed spot the flyby shot films from
+}
+
+// What the camera films
+export interface CameraSubject {
+  position: Vec3;
+  rotation: Vec3;
+  velocity: Vec3;
+}
+
+export interface CameraPose {
+  position: Vec3;
+  target: Vec3;
+  roll: number; // Radians around the view direction
+  fov: number;
+  follow: number; // Share of the gap closed per 60 Hz frame (1 = locked on)
+  cut: boolean; // Jump straight there instead of easing
+}
+
+const DEFAULT_FOV = 75;
+const MIN_HEIGHT = 0.5; // Keep low shots above the ground
+const HEADING_FOLLOW = 0.05; // Per 60 Hz frame
+const ORBIT_SPEED = 0.25; // radians per second
+const ORBIT_RADIUS = 12;
+const ORBIT_HEIGHT = 5;
+const SHOT_LENGTH = 4; // seconds
+
+export function createCameraRig(mode: CameraMode): CameraRig {
+  return {
+    mode,
+    heading: 0,
+    orbitAngle: 0,
+    shot: "chase",
+    shotTime: 0,
+    anchor: null,
+  };
+}
+
+export function getNextCameraMode(mode: CameraMode): CameraMode {
+  const modes = Object.keys(CAMERA_MODES) as CameraMode[];
+  return modes[(modes.indexOf(mode) + 1) % modes.length];
+}
+
+// Start circling from wherever the camera is now
+export function startOrbit(rig: CameraRig, camera: Vec3, subject: Vec3) {
+  rig.orbitAngle = Math.atan2(camera.x - subject.x, camera.z - subject.z);
+}
+
+function add(a: Vec3, x: number, y: number, z: number): Vec3 {
+  return { x: a.x + x, y: a.y + y, z: a.z + z };
+}
+
+// Offset given in the plane's travel frame (x to its left, z ahead)
+function alongHeading(
+  a: Vec3,
+  heading: number,
+  x: number,
+  y: number,
+  z: number,
+) {
+  const sin = Math.sin(heading);
+  const cos = Math.cos(heading);
+  return add(a, x * cos + z * sin, y, z * cos - x * sin);
+}
+
+function pose(
+  position: Vec3,
+  target: Vec3,
+  overrides: Partial<CameraPose> = {},
+): CameraPose {
+  return {
+    position: { ...position, y: Math.max(position.y, MIN_HEIGHT) },
+    target,
+    roll: 0,
+    fov: DEFAULT_FOV,
+    follow: CAMERA_LERP_SPEED,
+    cut: false,
+    ...overrides,
+  };
+}
+
+// Advance the rig and return where the camera should be
+export function updateCameraRig(
+  rig: CameraRig,
+  subject: CameraSubject,
+  deltaTime: number,
+  stage: CameraStage,
+  random: () => number = Math.random,
+): CameraPose {
+  const { position, rotation, velocity } = subject;
+  const frames = deltaTime * 60;
+
+  if (stage === "aiming") {
+    rig.heading = 0;
+    return pose(
+      add(position, CAMERA_OFFSET.x, CAMERA_OFFSET.y, CAMERA_OFFSET.z),
+      position,
+    );
+  }
+
+  // Heading follows the velocity; a near-stopped plane keeps the last one
+  if (Math.hypot(velocity.x, velocity.z) > 1) {
+    const target = Math.atan2(velocity.x, velocity.z);
+    const turn = Math.atan2(
+      Math.sin(target - rig.heading),
+      Math.cos(target - rig.heading),
+    );
+    rig.heading += turn * (1 - Math.pow(1 - HEADING_FOLLOW, frames));
+  }
+  const { heading } = rig;
+  const bank = -rotation.z; // Plane rolls about +z, the camera about its view
+
+  if (stage === "settled" || rig.mode === "orbit") {
+    rig.orbitAngle += ORBIT_SPEED * deltaTime;
+    return pose(
+      add(
+        position,
+        Math.sin(rig.orbitAngle) * ORBIT_RADIUS,
+        ORBIT_HEIGHT,
+        Math.cos(rig.orbitAngle) * ORBIT_RADIUS,
+      ),
+      position,
+    );
+  }
+
+  switch (rig.mode) {
+    case "chase":
+      return pose(
+        alongHeading(
+          position,
+          heading,
+          CAMERA_OFFSET.x,
+          CAMERA_OFFSET.y,
+          CAMERA_OFFSET.z,
+        ),
+        position,
+        { roll: bank * 0.5 },
+      );
+
+    // Far out to the left and a little ahead, so the whole flight line reads
+    case "side":
+      return pose(add(position, 35, 6, -5), add(position, 0, 0, 8), {
+        fov: 60,
+        follow: 0.15,
+      });
+
+    // Just above the fuselage, looking where the plane is going
+    case "cockpit": {
+      const eye = alongHeading(position, heading, 0, 0.35, 0.3);
+      const speed = Math.hypot(velocity.x, velocity.y, velocity.z);
+      const ahead =
+        speed > 1
+          ? add(
+              eye,
+              (velocity.x / speed) * 20,
+              (velocity.y / speed) * 20,
+              (velocity.z / speed) * 20,
+            )
+          : alongHeading(eye, heading, 0, 0, 20);
+      return pose(eye, ahead, { roll: bank, fov: 85, follow: 1 });
+    }
+
+    case "cinematic":
+      return updateDirector(rig, subject, deltaTime, random);
+  }
+}
+
+// Auto-director: holds each shot for a few seconds, then cuts to a different
+// one. The flyby plants the camera beside the flight path and lets the plane
+// pass it.
+function updateDirector(
+  rig: CameraRig,
+  subject: CameraSubject,
+  deltaTime: number,
+  random: () => number,
+): CameraPose {
+  const { position } = subject;
+  let cut = false;
+  rig.shotTime += deltaTime;
+  if (rig.shotTime >= SHOT_LENGTH) {
+    const others = CINEMATIC_SHOTS.filter((shot) => shot !== rig.shot);
+    rig.shot = others[Math.floor(random() * others.length)];
+    rig.shotTime = 0;
+    rig.anchor = null;
+    cut = true;
+  }
+
+  const { heading } = rig;
+  switch (rig.shot) {
+    case "chase":
+      return pose(alongHeading(position, heading, 0, 3, -10), position, {
+        cut,
+      });
+    case "flyby": {
+      const speed = Math.hypot(subject.velocity.x, subject.velocity.z);
+      rig.anchor ??= alongHeading(
+        position,
+        heading,
+        (random() < 0.5 ? -1 : 1) * 8,
+        1.5,
+        Math.min(120, 5 + speed * SHOT_LENGTH * 0.4),
+      );
+      return pose(rig.anchor, position, { fov: 50, follow: 1, cut });
+    }
+    case "low":
+      return pose(alongHeading(position, heading, 3, -0.5, -6), position, {
+        roll: -subject.rotation.z * 0.3,
+        fov: 90,
+        cut,
+      });
+    case "overhead":
+      return pose(add(position, 0, 25, -4), position, { fov: 60, cut });
+    case "front":
+      return pose(
+        alongHeading(position, heading, 1.5, 1, 10),
+        alongHeading(position, heading, 0, 0, -5),
+        { follow: 0.3, cut },
+      );
+  }
+}
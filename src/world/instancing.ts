@@ -0,0 +1,82 @@
+// Instance pools for repeated scenery. Each pool is one InstancedMesh (one
+// draw call) whose slots are handed out to obstacles as chunks stream in and
+// recycled when they stream out.
+import * as THREE from "three";
+
+export interface InstancePool {
+  add(matrix: THREE.Matrix4, color: THREE.Color): number;
+  remove(index: number): void;
+  getBounds(matrix: THREE.Matrix4, target: THREE.Box3): THREE.Box3;
+}
+
+export interface InstanceHandle {
+  pool: InstancePool;
+  index: number;
+}
+
+// Freed slots are collapsed to zero scale until they are reused
+const HIDDEN = new THREE.Matrix4().makeScale(0, 0, 0);
+
+export function createInstancePool(
+  scene: THREE.Scene,
+  geometry: THREE.BufferGeometry,
+  material: THREE.Material,
+  initialCapacity = 256,
+): InstancePool {
+  geometry.computeBoundingBox();
+  const localBounds = geometry.boundingBox!.clone();
+
+  let capacity = initialCapacity;
+  let mesh = createMesh(capacity);
+  let used = 0; // High-water mark of handed-out slots
+  const freeSlots: number[] = [];
+
+  function createMesh(size: number): THREE.InstancedMesh {
+    const instanced = new THREE.InstancedMesh(geometry, material, size);
+    instanced.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    instanced.setColorAt(0, new THREE.Color(0xffffff));
+    instanced.count = 0;
+    // Instances span the whole course, so per-mesh culling would be wrong
+    instanced.frustumCulled = false;
+    scene.add(instanced);
+    return instanced;
+  }
+
+  // Double the capacity, carrying existing instances over
+  function grow() {
+    const previous = mesh;
+    capacity *= 2;
+    mesh = createMesh(capacity);
+    mesh.instanceMatrix.array.set(previous.instanceMatrix.array);
+    mesh.instanceColor!.array.set(previous.instanceColor!.array);
+    mesh.count = previous.count;
+    scene.remove(previous);
+    previous.dispose();
+  }
+
+  return {
+    add(matrix, color) {
+      let index = freeSlots.pop();
+      if (index === undefined) {
+        if (used >= capacity) grow();
+        index = used++;
+        mesh.count = used;
+      }
+      mesh.setMatrixAt(index, matrix);
+      mesh.setColorAt(index, color);
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.instanceColor!.needsUpdate = true;
+      return index;
+    },
+
+    remove(index) {
+      mesh.setMatrixAt(index, HIDDEN);
+      mesh.instanceMatrix.needsUpdate = true;
+      freeSlots.push(index);
+    },
+
+    getBounds(matrix, target) {
+      return target.copy(localBounds).applyMatrix4(matrix);
+    },
+  };
+}
@@ -0,0 +1,311 @@
+// Obstacle layout for the course, generated one chunk at a time. Layouts are
+// plain data drawn from a per-chunk seeded stream, so any chunk can be
+// dropped and regenerated later and come back identical.
+import { CHUNK_LENGTH, ZONES } from "../config/constants.ts";
+import {
+  COINS_PER_CLUSTER,
+  COIN_SPACING,
+  PICKUP_ZONES,
+  RING_SPACING,
+  RINGS_PER_CHAIN,
+} from "../config/pickupData.ts";
+import { createRandom, type Random } from "../utils/random.ts";
+import type { Vec3 } from "../physics/flightSim.ts";
+
+export type ObstacleSpec =
+  | { type: "person"; x: number; z: number; shirtColor: number }
+  | {
+      type: "vehicle";
+      x: number;
+      z: number;
+      color: number;
+      width: number;
+      height: number;
+      length: number;
+    }
+  | {
+      type: "building";
+      x: number;
+      z: number;
+      width: number;
+      height: number;
+      depth: number;
+      color: number;
+    }
+  | { type: "cactus"; x: number; z: number; arms: number }
+  | { type: "rock"; x: number; z: number; size: number; rotation: Vec3 }
+  | {
+      type: "tree";
+      x: number;
+      z: number;
+      trunkHeight: number;
+      foliageHeight: number;
+    }
+  | { type: "elk"; x: number; z: number; heading: number };
+
+export type ObstacleType = ObstacleSpec["type"];
+
+// Pickups are identified by chunk and order so a run can remember which ones
+// it has already taken when a chunk is rebuilt
+export type PickupSpec =
+  | { type: "coin"; id: string; x: number; y: number; z: number }
+  | {
+      type: "ring";
+      id: string;
+      x: number;
+      y: number;
+      z: number;
+      chain: string;
+      order: number; // 0-based position in the chain
+      chainLength: number;
+    };
+
+export const CHUNK_COUNT = Math.ceil(ZONES.forest.end / CHUNK_LENGTH);
+
+const CAR_COLORS = [0xff0000, 0x0000ff, 0x00ff00, 0xffffff, 0x000000, 0xffff00];
+const BUILDING_COLORS = [0x808080, 0xa0a0a0, 0x606060, 0xb0b0b0, 0x909090];
+const PEDESTRIAN_COLORS = [0xff6b6b, 0x4ecdc4, 0xffe66d, 0x95e1d3, 0xf38181];
+
+export function getChunkRange(index: number): { start: number; end: number } {
+  return { start: index * CHUNK_LENGTH, end: (index + 1) * CHUNK_LENGTH };
+}
+
+// Walk a row of obstacles through [start, end) with random gaps. The first
+// position is a random phase within one average gap, so rows keep roughly
+// the same density no matter where the chunk boundaries fall.
+function forEachSpaced(
+  rng: Random,
+  start: number,
+  end: number,
+  first: number,
+  minGap: number,
+  gapRange: number,
+  place: (z: number) => void,
+) {
+  const from = Math.max(start, first);
+  if (from >= end) return;
+
+  const averageGap = minGap + gapRange / 2;
+  let z = from === first ? first : from + rng.next() * averageGap;
+  while (z < end) {
+    place(z);
+    z += minGap + rng.next() * gapRange;
+  }
+}
+
+function layoutRunway(rng: Random, start: number, end: number) {
+  const specs: ObstacleSpec[] = [];
+  if (start > ZONES.runway.start || end < ZONES.runway.end) return specs;
+
+  // Airport workers in orange vests
+  for (let i = 0; i < 5; i++) {
+    const x = (rng.next() - 0.5) * 16;
+    const z = 20 + rng.next() * 70;
+    specs.push({ type: "person", x, z, shirtColor: 0xffa500 });
+  }
+
+  // Yellow airport vehicles
+  for (let i = 0; i < 3; i++) {
+    const x = (rng.next() > 0.5 ? 1 : -1) * (5 + rng.next() * 3);
+    const z = 30 + rng.next() * 60;
+    specs.push({
+      type: "vehicle",
+      x,
+      z,
+      color: 0xffff00,
+      width: 2,
+      height: 1.5,
+      length: 4,
+    });
+  }
+  return specs;
+}
+
+function layoutCity(rng: Random, start: number, end: number) {
+  const specs: ObstacleSpec[] = [];
+
+  // Buildings along the sides
+  forEachSpaced(rng, start, end, 120, 40, 30, (z) => {
+    const side = rng.next() > 0.5 ? 1 : -1;
+    specs.push({
+      type: "building",
+      x: side * (15 + rng.next() * 20),
+      z,
+      height: 10 + rng.next() * 40,
+      width: 8 + rng.next() * 12,
+      depth: 8 + rng.next() * 12,
+      color: rng.pick(BUILDING_COLORS),
+    });
+  });
+
+  // Street level obstacles (cars, people)
+  forEachSpaced(rng, start, end, 110, 15, 20, (z) => {
+    const x = (rng.next() - 0.5) * 20;
+    if (rng.next() > 0.5) {
+      specs.push({
+        type: "vehicle",
+        x,
+        z,
+        color: rng.pick(CAR_COLORS),
+        width: 2,
+        height: 1.2,
+        length: 4,
+      });
+    } else {
+      specs.push({
+        type: "person",
+        x,
+        z,
+        shirtColor: rng.pick(PEDESTRIAN_COLORS),
+      });
+    }
+  });
+  return specs;
+}
+
+function layoutDesert(rng: Random, start: number, end: number) {
+  const specs: ObstacleSpec[] = [];
+
+  // Cacti - most have one arm, some two
+  forEachSpaced(rng, start, end, 1050, 20, 40, (z) => {
+    const x = (rng.next() - 0.5) * 80;
+    const arms = rng.next() > 0.3 ? (rng.next() > 0.5 ? 2 : 1) : 0;
+    specs.push({ type: "cactus", x, z, arms });
+  });
+
+  // Rock formations
+  forEachSpaced(rng, start, end, 1100, 100, 100, (z) => {
+    specs.push({
+      type: "rock",
+      x: (rng.next() - 0.5) * 60,
+      z,
+      size: 2 + rng.next() * 4,
+      rotation: { x: rng.next(), y: rng.next(), z: rng.next() },
+    });
+  });
+  return specs;
+}
+
+function layoutForest(rng: Random, start: number, end: number) {
+  const specs: ObstacleSpec[] = [];
+
+  // Trees - denser than desert
+  forEachSpaced(rng, start, end, 3050, 10, 20, (z) => {
+    specs.push({
+      type: "tree",
+      x: (rng.next() - 0.5) * 100,
+      z,
+      trunkHeight: 3 + rng.next() * 2,
+      foliageHeight: 4 + rng.next() * 3,
+    });
+  });
+
+  // Occasional elk
+  forEachSpaced(rng, start, end, 3200, 200, 300, (z) => {
+    specs.push({
+      type: "elk",
+      x: (rng.next() - 0.5) * 40,
+      z,
+      heading: rng.next() * Math.PI * 2,
+    });
+  });
+  return specs;
+}
+
+export function generateChunkLayout(
+  worldSeed: string,
+  index: number,
+): ObstacleSpec[] {
+  const { start, end } = getChunkRange(index);
+  const rng = createRandom(`${worldSeed}:chunk:${index}`);
+
+  if (start < ZONES.runway.end) return layoutRunway(rng, start, end);
+  if (start < ZONES.city.end) return layoutCity(rng, start, end);
+  if (start < ZONES.desert.end) return layoutDesert(rng, start, end);
+  if (start < ZONES.forest.end) return layoutForest(rng, start, end);
+  return [];
+}
+
+function getChunkZone(start: number): keyof typeof ZONES | null {
+  for (const zone of Object.keys(ZONES) as (keyof typeof ZONES)[]) {
+    if (start < ZONES[zone].end) return zone;
+  }
+  return null;
+}
+
+// Coin clusters and ring chains for one chunk. They come from their own
+// stream so adding pickups left every seed's obstacle layout unchanged.
+export function generateChunkPickups(
+  worldSeed: string,
+  index: number,
+): PickupSpec[] {
+  const { start, end } = getChunkRange(index);
+  const zone = getChunkZone(start);
+  if (!zone) return [];
+
+  const rng = createRandom(`${worldSeed}:pickups:${index}`);
+  const profile = PICKUP_ZONES[zone];
+  const { start: zoneStart, end: zoneEnd } = ZONES[zone];
+  const height = () => rng.range(profile.height.min, profile.height.max);
+  const offset = () => (rng.next() - 0.5) * 2 * profile.spread;
+  const specs: PickupSpec[] = [];
+  const id = () => `${index}:${specs.length}`;
+
+  // Short rows of coins arcing over a hump
+  if (profile.clusterGap > 0) {
+    const gap = profile.clusterGap;
+    forEachSpaced(rng, start, end, zoneStart + gap / 2, gap / 2, gap, (z) => {
+      const x = offset();
+      const y = height();
+      for (let i = 0; i < COINS_PER_CLUSTER; i++) {
+        const arc = Math.sin((i / (COINS_PER_CLUSTER - 1)) * Math.PI) * 2;
+        specs.push({
+          type: "coin",
+          id: id(),
+          x,
+          y: y + arc,
+          z: z + i * COIN_SPACING,
+        });
+      }
+    });
+  }
+
+  // Ring chains drift a little from ring to ring; a chain that would run
+  // past the end of the zone is left out
+  if (profile.chainGap > 0) {
+    const gap = profile.chainGap;
+    forEachSpaced(rng, start, end, zoneStart + gap, gap / 2, gap, (z) => {
+      const chainLength =
+        RINGS_PER_CHAIN.min +
+        Math.floor(
+          rng.next() * (RINGS_PER_CHAIN.max - RINGS_PER_CHAIN.min + 1),
+        );
+      if (z + chainLength * RING_SPACING > zoneEnd) return;
+
+      const chain = id();
+      let x = offset();
+      let y = height();
+      for (let order = 0; order < chainLength; order++) {
+        specs.push({
+          type: "ring",
+          id: id(),
+          x,
+          y,
+          z: z + order * RING_SPACING,
+          chain,
+          order,
+          chainLength,
+        });
+        x = Math.max(
+          -profile.spread,
+          Math.min(profile.spread, x + rng.range(-3, 3)),
+        );
+        y = Math.max(
+          profile.height.min,
+          Math.min(profile.height.max, y + rng.range(-2, 2)),
+        );
+      }
+    });
+  }
+  return specs;
+}
@@ -0,0 +1,110 @@
+// Coin and ring pickups over one run: what the plane flew through between two
+// ticks, and the bonus that earns. Plain data like the layout it scores.
+import {
+  CHAIN_BONUS,
+  COIN_RADIUS,
+  COIN_VALUE,
+  MAX_RING_STREAK,
+  RING_RADIUS,
+  RING_VALUE,
+} from "../config/pickupData.ts";
+import type { Vec3 } from "../physics/flightSim.ts";
+import type { PickupSpec } from "./layout.ts";
+
+export type RingSpec = Extract<PickupSpec, { type: "ring" }>;
+
+export interface PickupTally {
+  bonus: number; // Coins earned from pickups this run
+  coins: number; // Coins picked up
+  rings: number; // Rings flown through
+  streak: number; // Rings in a row without a miss
+  chains: Map<string, number>; // Rings cleared per chain; -1 once one is missed
+}
+
+export function createPickupTally(): PickupTally {
+  return { bonus: 0, coins: 0, rings: 0, streak: 0, chains: new Map() };
+}
+
+// Closest approach of the segment start->end to a point
+function distanceToSegment(start: Vec3, end: Vec3, point: Vec3): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const dz = end.z - start.z;
+  const lengthSq = dx * dx + dy * dy + dz * dz;
+  const t =
+    lengthSq > 0
+      ? Math.max(
+          0,
+          Math.min(
+            1,
+            ((point.x - start.x) * dx +
+              (point.y - start.y) * dy +
+              (point.z - start.z) * dz) /
+              lengthSq,
+          ),
+        )
+      : 0;
+  return Math.hypot(
+    start.x + dx * t - point.x,
+    start.y + dy * t - point.y,
+    start.z + dz * t - point.z,
+  );
+}
+
+// reach is how far the plane's body extends from its centre
+export function touchesCoin(
+  start: Vec3,
+  end: Vec3,
+  coin: PickupSpec,
+  reach: number,
+): boolean {
+  return distanceToSegment(start, end, coin) <= COIN_RADIUS + reach;
+}
+
+// "through" or "missed" once the plane crosses the ring's plane, else null
+export function crossRing(
+  start: Vec3,
+  end: Vec3,
+  ring: RingSpec,
+): "through" | "missed" | null {
+  if (start.z >= ring.z || end.z < ring.z) return null;
+  const t = (ring.z - start.z) / (end.z - start.z);
+  const x = start.x + (end.x - start.x) * t;
+  const y = start.y + (end.y - start.y) * t;
+  return Math.hypot(x - ring.x, y - ring.y) <= RING_RADIUS
+    ? "through"
+    : "missed";
+}
+
+// Returns the coins awarded
+export function collectCoin(tally: PickupTally): number {
+  tally.coins++;
+  tally.bonus += COIN_VALUE;
+  return COIN_VALUE;
+}
+
+// Each ring in an unbroken streak is worth more than the last; clearing every
+// ring of a chain in order pays a chain bonus too. Returns the coins awarded.
+export function passRing(tally: PickupTally, ring: RingSpec): number {
+  tally.rings++;
+  tally.streak = Math.min(tally.streak + 1, MAX_RING_STREAK);
+  let award = RING_VALUE * tally.streak;
+
+  const cleared = tally.chains.get(ring.chain) ?? 0;
+  if (cleared === ring.order) {
+    tally.chains.set(ring.chain, cleared + 1);
+    if (cleared + 1 === ring.chainLength) {
+      award += CHAIN_BONUS * ring.chainLength;
+    }
+  } else {
+    tally.chains.set(ring.chain, -1);
+  }
+
+  tally.bonus += award;
+  return award;
+}
+
+export function missRing(tally: PickupTally, ring: RingSpec) {
+  tally.streak = 0;
+  tally.chains.set(ring.chain, -1);
+}
@@ -0,0 +1,138 @@
+// Time-of-day lighting. Plain colour and direction data for a given time and
+// weather; the scene applies it to its lights, sky dome and fog.
+import {
+  WEATHER,
+  type WeatherKey,
+  type WeatherPreset,
+} from "../config/weatherData.ts";
+import type { Vec3 } from "../physics/flightSim.ts";
+
+export interface SkyState {
+  sunDirection: Vec3; // Unit vector toward the light (the moon at night)
+  sunColor: number;
+  sunIntensity: number;
+  ambientColor: number;
+  ambientIntensity: number;
+  skyTop: number;
+  skyHorizon: number; // Also the fog colour, so distant scenery blends in
+  fogNear: number;
+  fogFar: number;
+}
+
+interface SkyKey {
+  time: number; // 0 = midnight, 0.25 = sunrise, 0.5 = noon, 0.75 = sunset
+  skyTop: number;
+  skyHorizon: number;
+  sunColor: number;
+  sunIntensity: number;
+  ambientColor: number;
+  ambientIntensity: number;
+}
+
+// Noon matches the original fixed lighting
+const SKY_KEYS: SkyKey[] = [
+  {
+    time: 0,
+    skyTop: 0x0b1026,
+    skyHorizon: 0x1c2541,
+    sunColor: 0x8899ff,
+    sunIntensity: 0.2,
+    ambientColor: 0x5a6490,
+    ambientIntensity: 0.35,
+  },
+  {
+    time: 0.25,
+    skyTop: 0x3a5f9e,
+    skyHorizon: 0xf4a261,
+    sunColor: 0xffb37a,
+    sunIntensity: 0.5,
+    ambientColor: 0xb0a0b0,
+    ambientIntensity: 0.45,
+  },
+  {
+    time: 0.5,
+    skyTop: 0x4a90d9,
+    skyHorizon: 0x87ceeb,
+    sunColor: 0xffffff,
+    sunIntensity: 0.8,
+    ambientColor: 0xffffff,
+    ambientIntensity: 0.6,
+  },
+  {
+    time: 0.75,
+    skyTop: 0x2e3a6e,
+    skyHorizon: 0xff7e5f,
+    sunColor: 0xff9966,
+    sunIntensity: 0.5,
+    ambientColor: 0xb09aa0,
+    ambientIntensity: 0.45,
+  },
+  {
+    time: 1,
+    skyTop: 0x0b1026,
+    skyHorizon: 0x1c2541,
+    sunColor: 0x8899ff,
+    sunIntensity: 0.2,
+    ambientColor: 0x5a6490,
+    ambientIntensity: 0.35,
+  },
+];
+
+function mixColor(a: number, b: number, t: number): number {
+  const channel = (shift: number) => {
+    const from = (a >> shift) & 0xff;
+    const to = (b >> shift) & 0xff;
+    return Math.round(from + (to - from) * t) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+}
+
+function tint(color: number, weather: WeatherPreset): number {
+  return mixColor(color, weather.tint, weather.tintAmount);
+}
+
+// Weather that holds the clock (e.g. dusk haze) overrides the time passed in
+export function getSkyState(
+  timeOfDay: number,
+  weatherKey: WeatherKey,
+): SkyState {
+  const weather = WEATHER[weatherKey];
+  const time = weather.timeOfDay ?? ((timeOfDay % 1) + 1) % 1;
+
+  // time is below 1, so there is always a later key
+  const next = SKY_KEYS.findIndex((key) => key.time > time);
+  const from = SKY_KEYS[next - 1];
+  const to = SKY_KEYS[next];
+  const t = (time - from.time) / (to.time - from.time);
+
+  // The sun rises on the right, peaks overhead at noon and sets on the left;
+  // below the horizon the moon takes over from the opposite side
+  const angle = (time - 0.25) * Math.PI * 2;
+  const sun = { x: -Math.cos(angle), y: Math.sin(angle), z: 0.3 };
+  if (sun.y < 0) {
+    sun.x = -sun.x;
+    sun.y = -sun.y;
+  }
+  sun.y = Math.max(sun.y, 0.15); // Keep some top light at the horizon
+  const length = Math.hypot(sun.x, sun.y, sun.z);
+
+  return {
+    sunDirection: { x: sun.x / length, y: sun.y / length, z: sun.z / length },
+    sunColor: tint(mixColor(from.sunColor, to.sunColor, t), weather),
+    sunIntensity:
+      (from.sunIntensity + (to.sunIntensity - from.sunIntensity) * t) *
+      weather.light,
+    ambientColor: tint(
+      mixColor(from.ambientColor, to.ambientColor, t),
+      weather,
+    ),
+    ambientIntensity:
+      (from.ambientIntensity +
+        (to.ambientIntensity - from.ambientIntensity) * t) *
+      weather.light,
+    skyTop: tint(mixColor(from.skyTop, to.skyTop, t), weather),
+    skyHorizon: tint(mixColor(from.skyHorizon, to.skyHorizon, t), weather),
+    fogNear: weather.fogNear,
+    fogFar: weather.fogFar,
+  };
+}